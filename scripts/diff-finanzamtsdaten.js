@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/**
+ * Prints the changes between two Finanzamt datasets
+ *
+ * Usage: node scripts/diff-finanzamtsdaten.js <before> <after> [--json]
+ *
+ * Each dataset is a JSON file holding an object keyed by BUFA or an array of
+ * Finanzämter, or "--bundled" for the production and test Finanzämter of the
+ * build in dist/ (npm run diff:finanzamtsdaten builds it first). Prints a
+ * Markdown changelog for release notes, or the structured diff with --json.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const BUNDLED = '--bundled';
+
+const DIST = path.join(__dirname, '..', 'dist');
+
+function loadDataset(source, library) {
+  const data =
+    source === BUNDLED
+      ? library.listFinanzaemter({ mode: 'test' })
+      : JSON.parse(fs.readFileSync(source, 'utf8'));
+
+  return Array.isArray(data) ? Object.fromEntries(data.map((info) => [info.bufa, info])) : data;
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const [before, after] = args.filter((arg) => arg !== '--json');
+  if (!before || !after) {
+    console.error('Usage: node scripts/diff-finanzamtsdaten.js <before> <after> [--json]');
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(path.join(DIST, 'index.js'))) {
+    console.error('dist/ is missing, run npm run build first');
+    process.exit(1);
+  }
+
+  try {
+    const library = require(DIST);
+    const diff = library.diffFinanzamtData(
+      loadDataset(before, library),
+      loadDataset(after, library)
+    );
+    console.log(json ? JSON.stringify(diff, null, 2) : library.formatFinanzamtChangelog(diff));
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+module.exports = { loadDataset };
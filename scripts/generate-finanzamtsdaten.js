@@ -0,0 +1,429 @@
+#!/usr/bin/env node
+/**
+ * Generates PRODUCTION_BUFA_MAP in src/tax-number/finanzamtsdaten.ts and
+ * FINANZAMT_KONTAKTDATEN in src/tax-number/finanzamtsdaten-kontakt.ts from a
+ * local copy of the official Finanzamt directory (GemFA export)
+ *
+ * Usage: node scripts/generate-finanzamtsdaten.js <gemfa.csv|gemfa.xml> [target]
+ *
+ * The export must be UTF-8. CSV files are separated by ";" (or ",") and start
+ * with a header row; XML files hold one element per Finanzamt. The BUFA number
+ * and the name go into the production map, Bundesland and Prüfziffernverfahren
+ * follow from the Landesnummer. Addresses, contact details and bank accounts
+ * go into the contact data file next to the target. The script replaces the
+ * code between the GENERATED markers of both files, so updates show up as
+ * data diffs.
+ */
+const fs = require('fs');
+const path = require('path');
+const laender = require('../src/tax-number/laender.json');
+
+const DEFAULT_TARGET = path.join(__dirname, '..', 'src', 'tax-number', 'finanzamtsdaten.ts');
+
+const KONTAKT_FILE = 'finanzamtsdaten-kontakt.ts';
+
+const BEGIN_MARKER = '// BEGIN GENERATED by scripts/generate-finanzamtsdaten.js';
+const END_MARKER = '// END GENERATED';
+
+// Column or element names of the BUFA number and the name in GemFA exports
+const BUFA_FIELDS = ['bufanr', 'bufa', 'finanzamtnr', 'fanr'];
+const NAME_FIELDS = ['name', 'finanzamtname', 'bezeichnung', 'fabez'];
+
+// Column or element names of the contact fields in GemFA exports
+const HAUSANSCHRIFT_FIELDS = {
+  strasse: ['strasse', 'straße', 'hausanschrift_strasse'],
+  plz: ['plz', 'hausanschrift_plz'],
+  ort: ['ort', 'hausanschrift_ort'],
+};
+const POSTANSCHRIFT_FIELDS = {
+  postfach: ['postfach', 'postanschrift_postfach'],
+  plz: ['postfach_plz', 'plz_postfach', 'postanschrift_plz', 'grosskunden_plz'],
+  ort: ['postfach_ort', 'ort_postfach', 'postanschrift_ort'],
+};
+const KONTAKT_FIELDS = {
+  telefon: ['telefon', 'tel'],
+  telefax: ['telefax', 'fax'],
+  email: ['email', 'e-mail', 'mail'],
+  internet: ['internet', 'url', 'homepage'],
+};
+
+// Bank account columns, optionally numbered for further accounts, e.g. "iban_2"
+const BANK_FIELD = /^(bank|bankbezeichnung|iban|bic)(?:_?(\d))?$/;
+
+// Landesnummer → Bundesland and Prüfziffernverfahren, from the tables of the library
+const BUNDESLAENDER = Object.fromEntries(
+  laender.laenderFormate.flatMap((format) =>
+    format.landesnummern.map((landesnummer) => [landesnummer, format.bundesland])
+  )
+);
+const VERFAHREN = laender.landesVerfahren;
+
+/**
+ * Parses a GemFA CSV export into records keyed by lower-case column name
+ */
+function parseCsv(text) {
+  const lines = splitCsvLines(text.replace(/^\uFEFF/, ''));
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const [header, ...rows] = lines.map((line) => splitCsvFields(line, delimiter));
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  return rows.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, (fields[index] || '').trim()]))
+  );
+}
+
+/**
+ * Splits CSV text into lines, keeping line breaks inside quoted fields
+ */
+function splitCsvLines(text) {
+  const lines = [];
+  let line = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if ((char === '\n' || char === '\r') && !quoted) {
+      if (line.trim()) lines.push(line);
+      line = '';
+    } else {
+      line += char;
+    }
+  }
+  if (line.trim()) lines.push(line);
+
+  return lines;
+}
+
+function splitCsvFields(line, delimiter) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      field += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
+
+/**
+ * Parses a GemFA XML export into records keyed by lower-case element name
+ *
+ * Reads the elements that hold text in document order; an element that is
+ * already set in the current record starts the next record. Elements inside a
+ * Hausanschrift or Postanschrift element are prefixed with its name, e.g.
+ * "postanschrift_plz", and those inside the n-th Bankverbindung are numbered,
+ * e.g. "iban_2".
+ */
+function parseXml(text) {
+  const records = [];
+  const parents = [];
+  let record = {};
+  let banks = 0;
+  let leaf = null;
+
+  for (const [, closing, tag, value] of text.matchAll(/<(\/?)([\w:-]+)(?:\s[^>]*)?>([^<]*)/g)) {
+    const name = tag.toLowerCase();
+    if (!closing) {
+      parents.push(name);
+      leaf = { name, value };
+      if (name === 'bankverbindung') banks++;
+      continue;
+    }
+
+    parents.pop();
+    if (leaf && leaf.name === name) {
+      const field = xmlFieldName(name, parents[parents.length - 1], banks);
+      if (record[field] !== undefined) {
+        records.push(record);
+        record = {};
+        banks = parents.includes('bankverbindung') ? 1 : 0;
+      }
+      record[field] = decodeXml(leaf.value.trim());
+    }
+    leaf = null;
+  }
+  if (Object.keys(record).length > 0) records.push(record);
+
+  return records.filter((candidate) => BUFA_FIELDS.some((field) => candidate[field] !== undefined));
+}
+
+function xmlFieldName(name, parent, banks) {
+  if (parent === 'hausanschrift' || parent === 'postanschrift') return `${parent}_${name}`;
+  if (parent === 'bankverbindung') return `${name}_${banks}`;
+  return name;
+}
+
+function decodeXml(value) {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Builds the FinanzamtInfo entries of the production Finanzämter
+ *
+ * A BUFA may carry the " (alt)" suffix of a former name of the office.
+ * Throws on records without a 4-digit BUFA, with an unknown Landesnummer,
+ * without a name or with a BUFA that occurs twice.
+ */
+function buildEntries(records) {
+  const entries = {};
+
+  records.forEach((record, index) => {
+    const bufa = pick(record, BUFA_FIELDS);
+    const name = pick(record, NAME_FIELDS).replace(/^Finanzamt\s+/, '');
+    const landesnummer = bufa.substring(0, 2);
+
+    if (!/^\d{4}( \(alt\))?$/.test(bufa)) {
+      throw new Error(`Record ${index + 1}: invalid BUFA "${bufa}"`);
+    }
+    if (!BUNDESLAENDER[landesnummer]) {
+      throw new Error(`Record ${index + 1}: unknown Landesnummer "${landesnummer}"`);
+    }
+    if (!name) {
+      throw new Error(`Record ${index + 1}: missing name of BUFA "${bufa}"`);
+    }
+    if (entries[bufa]) {
+      throw new Error(`Record ${index + 1}: duplicate BUFA "${bufa}"`);
+    }
+
+    entries[bufa] = {
+      bufa,
+      name,
+      bundesland: BUNDESLAENDER[landesnummer],
+      landesnummer,
+      finanzamtsnummer: bufa.substring(2),
+      isTest: false,
+      verfahren: VERFAHREN[landesnummer],
+      ...buildKontaktdaten(record),
+    };
+  });
+
+  return entries;
+}
+
+/**
+ * Reads the addresses, contact details and bank accounts of a record; empty
+ * columns are left out, as are addresses without PLZ and Ort
+ */
+function buildKontaktdaten(record) {
+  const kontaktdaten = {};
+
+  const hausanschrift = pickAll(record, HAUSANSCHRIFT_FIELDS);
+  if (hausanschrift.strasse && hausanschrift.plz && hausanschrift.ort) {
+    kontaktdaten.hausanschrift = hausanschrift;
+  }
+  const postanschrift = pickAll(record, POSTANSCHRIFT_FIELDS);
+  if (postanschrift.plz && postanschrift.ort) {
+    kontaktdaten.postanschrift = postanschrift;
+  }
+  const kontakt = pickAll(record, KONTAKT_FIELDS);
+  if (Object.keys(kontakt).length > 0) {
+    kontaktdaten.kontakt = kontakt;
+  }
+  const bankverbindungen = pickBankverbindungen(record);
+  if (bankverbindungen.length > 0) {
+    kontaktdaten.bankverbindungen = bankverbindungen;
+  }
+
+  return kontaktdaten;
+}
+
+function pick(record, fields) {
+  const field = fields.find((candidate) => record[candidate] !== undefined);
+  return field ? record[field] : '';
+}
+
+/**
+ * Picks every field of a group that has a value, e.g. { strasse, plz, ort }
+ */
+function pickAll(record, fieldGroup) {
+  const result = {};
+  Object.entries(fieldGroup).forEach(([key, fields]) => {
+    const value = pick(record, fields);
+    if (value) result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Collects the bank accounts of a record, ordered by their number; accounts
+ * without IBAN are skipped
+ */
+function pickBankverbindungen(record) {
+  const accounts = {};
+  Object.entries(record).forEach(([column, value]) => {
+    const match = BANK_FIELD.exec(column);
+    if (!match || !value) return;
+
+    const field = match[1] === 'bankbezeichnung' ? 'bank' : match[1];
+    const number = match[2] || '1';
+    accounts[number] = { ...accounts[number], [field]: value };
+  });
+
+  return Object.keys(accounts)
+    .sort()
+    .map((number) => accounts[number])
+    .filter((account) => account.iban)
+    .map(({ bank = '', iban, bic = '' }) => ({ bank, iban: iban.replace(/\s/g, ''), bic }));
+}
+
+/**
+ * Renders the PRODUCTION_BUFA_MAP declaration, sorted by BUFA
+ */
+function renderBufaMap(entries) {
+  const lines = ['// Production Finanzämter (real tax offices)'];
+  lines.push('const PRODUCTION_BUFA_MAP: Record<string, FinanzamtInfo> = {');
+
+  Object.keys(entries)
+    .sort()
+    .forEach((key) => {
+      const info = entries[key];
+      lines.push(
+        `  ${quote(key)}: {`,
+        `    bufa: ${quote(info.bufa)},`,
+        `    name: ${quote(info.name)},`,
+        `    bundesland: ${quote(info.bundesland)},`,
+        `    landesnummer: ${quote(info.landesnummer)},`,
+        `    finanzamtsnummer: ${quote(info.finanzamtsnummer)},`,
+        `    isTest: false,`,
+        `    verfahren: ${quote(info.verfahren)},`,
+        '  },'
+      );
+    });
+
+  lines.push('};');
+  return lines.join('\n');
+}
+
+/**
+ * Renders the FINANZAMT_KONTAKTDATEN declaration of the entries with contact
+ * data, sorted by BUFA
+ */
+function renderKontaktdaten(entries) {
+  const lines = [];
+
+  Object.keys(entries)
+    .sort()
+    .forEach((key) => {
+      const { hausanschrift, postanschrift, kontakt, bankverbindungen } = entries[key];
+      if (!hausanschrift && !postanschrift && !kontakt && !bankverbindungen) return;
+
+      lines.push(`  ${quote(key)}: {`);
+      if (hausanschrift) lines.push(...renderObject('hausanschrift', hausanschrift, '    '));
+      if (postanschrift) lines.push(...renderObject('postanschrift', postanschrift, '    '));
+      if (kontakt) lines.push(...renderObject('kontakt', kontakt, '    '));
+      if (bankverbindungen) {
+        lines.push('    bankverbindungen: [');
+        bankverbindungen.forEach((account) => lines.push(...renderObject(null, account, '      ')));
+        lines.push('    ],');
+      }
+      lines.push('  },');
+    });
+
+  const declaration =
+    'export const FINANZAMT_KONTAKTDATEN: Record<string, FinanzamtKontaktdaten> = {';
+  return lines.length > 0 ? [declaration, ...lines, '};'].join('\n') : `${declaration}};`;
+}
+
+/**
+ * Renders an object literal with one property per line, optionally as a property
+ */
+function renderObject(name, object, indent) {
+  return [
+    `${indent}${name ? `${name}: ` : ''}{`,
+    ...Object.entries(object).map(([key, value]) => `${indent}  ${key}: ${quote(value)},`),
+    `${indent}},`,
+  ];
+}
+
+function quote(value) {
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Replaces the generated block of the finanzamtsdaten.ts source
+ */
+function replaceGeneratedBlock(source, block) {
+  const begin = source.indexOf(BEGIN_MARKER);
+  const end = source.indexOf(END_MARKER);
+  if (begin === -1 || end < begin) {
+    throw new Error('GENERATED markers not found in target file');
+  }
+
+  return `${source.substring(0, begin + BEGIN_MARKER.length)}\n${block}\n${source.substring(end)}`;
+}
+
+/**
+ * Returns the code between the GENERATED markers of the finanzamtsdaten.ts source
+ */
+function extractGeneratedBlock(source) {
+  const begin = source.indexOf(BEGIN_MARKER);
+  const end = source.indexOf(END_MARKER);
+  if (begin === -1 || end < begin) {
+    throw new Error('GENERATED markers not found in target file');
+  }
+
+  return source.substring(begin + BEGIN_MARKER.length, end).trim();
+}
+
+function generate(exportFile, targetFile = DEFAULT_TARGET) {
+  const text = fs.readFileSync(exportFile, 'utf8');
+  const records = /^\s*</.test(text.replace(/^\uFEFF/, '')) ? parseXml(text) : parseCsv(text);
+  const entries = buildEntries(records);
+  const kontaktFile = path.join(path.dirname(targetFile), KONTAKT_FILE);
+  const source = fs.readFileSync(targetFile, 'utf8');
+  const kontaktSource = fs.readFileSync(kontaktFile, 'utf8');
+
+  fs.writeFileSync(targetFile, replaceGeneratedBlock(source, renderBufaMap(entries)));
+  fs.writeFileSync(kontaktFile, replaceGeneratedBlock(kontaktSource, renderKontaktdaten(entries)));
+  return Object.keys(entries).length;
+}
+
+if (require.main === module) {
+  const [exportFile, targetFile] = process.argv.slice(2);
+  if (!exportFile) {
+    console.error('Usage: node scripts/generate-finanzamtsdaten.js <gemfa.csv|gemfa.xml> [target]');
+    process.exit(1);
+  }
+
+  try {
+    const count = generate(exportFile, targetFile);
+    console.log(`Wrote ${count} Finanzämter to ${targetFile || DEFAULT_TARGET}`);
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  BUNDESLAENDER,
+  VERFAHREN,
+  parseCsv,
+  parseXml,
+  buildEntries,
+  renderBufaMap,
+  renderKontaktdaten,
+  replaceGeneratedBlock,
+  extractGeneratedBlock,
+  generate,
+};
@@ -8,10 +8,101 @@
 
 export {
   ValidationPreset,
+  calculateTaxIdCheckDigit,
+  completeGermanTaxId,
+  getBICError,
+  getGermanTaxIdError,
+  getGermanTaxNumberError,
+  getGermanVatIdError,
+  getIBANError,
   runValidationPreset,
+  runValidationPresetDetailed,
   validateBIC,
+  validateBICDetailed,
   validateGermanTaxId,
+  validateGermanTaxIdDetailed,
   validateGermanTaxNumber,
+  validateGermanTaxNumberDetailed,
+  validateGermanVatId,
+  validateGermanVatIdDetailed,
   validateIBAN,
+  validateIBANDetailed,
   type ValidationPresetType,
 } from './preset-validation.helper';
+
+export { generateGermanTaxId } from './tax-id-generator';
+export { ValidationErrorCode, type ValidationErrorCodeType } from './validation-error-codes';
+export type {
+  BicMetadata,
+  IbanMetadata,
+  TaxIdMetadata,
+  TaxNumberMetadata,
+  ValidationMetadata,
+  ValidationResult,
+  VatIdMetadata,
+} from './validation-result';
+export {
+  FinanzamtKind,
+  FinanzamtMode,
+  classifyFinanzamt,
+  getDefaultFinanzamtMode,
+  setDefaultFinanzamtMode,
+  type FinanzamtBankverbindung,
+  type FinanzamtHausanschrift,
+  type FinanzamtInfo,
+  type FinanzamtKindType,
+  type FinanzamtKontakt,
+  type FinanzamtModeType,
+  type FinanzamtPostanschrift,
+} from './tax-number/finanzamtsdaten';
+export {
+  loadFinanzamtData,
+  registerFinanzaemter,
+  registerUmschluesselungen,
+  resetFinanzamtData,
+} from './tax-number/finanzamtsdaten-laden';
+export {
+  diffFinanzamtData,
+  formatFinanzamtChangelog,
+  type FinanzamtChange,
+  type FinanzamtDataDiff,
+  type FinanzamtFieldChange,
+} from './tax-number/finanzamtsdaten-vergleich';
+export {
+  verifyFinanzamtData,
+  type FinanzamtDataIssue,
+} from './tax-number/finanzamtsdaten-pruefung';
+export {
+  findFinanzaemterByAgs,
+  findFinanzaemterByPlz,
+  getFinanzamtByBufa,
+  getZustaendigkeitsVersion,
+  listFinanzaemter,
+  searchFinanzaemter,
+  type FinanzamtFilter,
+  type FinanzamtSearchOptions,
+} from './tax-number/finanzamtsverzeichnis';
+export {
+  convertSteuernummer,
+  type SteuernummerConversionOptions,
+  type SteuernummerConversionResult,
+} from './tax-number/umschluesselung';
+export { type Umschluesselung } from './tax-number/finanzamtsdaten-umschluesselung';
+export { formatSteuernummer, type FormattedSteuernummer } from './tax-number/formatierung';
+export {
+  generateSteuernummer,
+  type GeneratedSteuernummer,
+  type SteuernummerGenerationOptions,
+} from './tax-number/generierung';
+export {
+  validateSteuernummer,
+  type SteuernummerCandidate,
+  type SteuernummerValidationOptions,
+  type SteuernummerValidationResult,
+} from './tax-number/validation-tax-number';
+export { VAT_FORMATS, getVatFormat, type VatFormat } from './vat-id/vat-formats';
+export {
+  getEuVatIdError,
+  validateEuVatId,
+  validateEuVatIdDetailed,
+} from './vat-id/validation-vat-id';
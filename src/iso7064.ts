@@ -0,0 +1,26 @@
+/**
+ * Calculates a check digit with the ISO 7064 MOD 11,10 algorithm, used by the
+ * German tax ID, the German VAT ID and the Croatian OIB
+ *
+ * @param digits - The digits to protect, without the check digit
+ */
+export function calculateMod11_10CheckDigit(digits: string): number {
+  const modulus = 11;
+  const base = 10;
+  let product = base;
+
+  const length = digits.length;
+  for (let i = 0; i < length; i++) {
+    const digit = parseInt(digits.charAt(i), 10);
+    let sum = (digit + product) % base;
+
+    if (sum === 0) {
+      sum = base;
+    }
+
+    product = (2 * sum) % modulus;
+  }
+
+  const checkDigit = modulus - product;
+  return checkDigit === 10 ? 0 : checkDigit;
+}
@@ -1,10 +1,25 @@
 import * as validCountryCodes from './country-codes.json';
-import { validateSteuernummer } from './tax-number/validation-tax-number';
+import { calculateMod11_10CheckDigit } from './iso7064';
+import { ValidationErrorCode, ValidationErrorCodeType } from './validation-error-codes';
+import {
+  BicMetadata,
+  IbanMetadata,
+  TaxIdMetadata,
+  TaxNumberMetadata,
+  ValidationResult,
+  VatIdMetadata,
+} from './validation-result';
+import { FinanzamtMode, getFinanzamt, toIsoDate } from './tax-number/finanzamtsdaten';
+import {
+  SteuernummerValidationOptions,
+  validateSteuernummer,
+} from './tax-number/validation-tax-number';
+import { validateEuVatIdDetailed } from './vat-id/validation-vat-id';
 
 /**
  * Validation preset types
  */
-export type ValidationPresetType = 'taxId' | 'taxNumber' | 'iban' | 'bic';
+export type ValidationPresetType = 'taxId' | 'taxNumber' | 'vatId' | 'euVatId' | 'iban' | 'bic';
 
 /**
  * Validation preset enum for consistency
@@ -12,6 +27,8 @@ export type ValidationPresetType = 'taxId' | 'taxNumber' | 'iban' | 'bic';
 export const ValidationPreset = {
   TAX_ID: 'taxId' as const,
   TAX_NUMBER: 'taxNumber' as const,
+  VAT_ID: 'vatId' as const,
+  EU_VAT_ID: 'euVatId' as const,
   IBAN: 'iban' as const,
   BIC: 'bic' as const,
 } as const;
@@ -19,89 +36,313 @@ export const ValidationPreset = {
 /**
  * Calculates the check digit for a German tax ID (Steueridentifikationsnummer)
  * using the modulo 11 algorithm
+ *
+ * @param taxIdDigits - The first 10 digits of the tax ID
  */
-function calculateTaxIdCheckDigit(taxIdDigits: string): number {
-  const modulus = 11;
-  const base = 10;
-  let product = base;
+export function calculateTaxIdCheckDigit(taxIdDigits: string): number {
+  return calculateMod11_10CheckDigit(taxIdDigits);
+}
 
-  const length = taxIdDigits.length;
-  for (let i = 0; i < length; i++) {
-    const digit = parseInt(taxIdDigits.charAt(i), 10);
-    let sum = (digit + product) % base;
+/**
+ * Completes the first 10 digits of a German tax ID with the check digit
+ *
+ * Only the check digit is added; the structural rules are not checked.
+ *
+ * @throws If the body is not exactly 10 digits
+ */
+export function completeGermanTaxId(body: string): string {
+  if (!/^\d{10}$/.test(body)) {
+    throw new Error(`Tax ID body "${body}" must be exactly 10 digits`);
+  }
+  return body + calculateTaxIdCheckDigit(body);
+}
 
-    if (sum === 0) {
-      sum = base;
-    }
+/**
+ * Checks the structure of the first 10 digits of a German tax ID: exactly one
+ * digit appears two or three times, all others at most once, and a digit that
+ * appears three times does not appear three times in a row
+ */
+function getTaxIdStructureError(mainDigits: string): ValidationErrorCodeType | null {
+  const counts = new Map<string, number>();
+  for (const digit of mainDigits) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
 
-    product = (2 * sum) % modulus;
+  const repeated = [...counts.entries()].filter(([, count]) => count > 1);
+  if (repeated.length !== 1 || repeated[0][1] > 3) {
+    return ValidationErrorCode.INVALID_DIGIT_REPETITION;
   }
 
-  const checkDigit = modulus - product;
-  return checkDigit === 10 ? 0 : checkDigit;
+  const [digit, count] = repeated[0];
+  if (count === 3 && mainDigits.includes(digit.repeat(3))) {
+    return ValidationErrorCode.CONSECUTIVE_DIGITS;
+  }
+
+  return null;
 }
 
 /**
- * Validates a German tax ID (Steueridentifikationsnummer)
+ * Checks a German tax ID (Steueridentifikationsnummer)
  * Requirements:
  * - Must be exactly 11 digits
+ * - First digit must not be 0
+ * - In the first 10 digits, exactly one digit appears two or three times, but
+ *   not three times in a row; all other digits appear at most once
  * - Last digit must be a valid check digit according to modulo 11 algorithm
+ *
+ * @returns The error code of the first failed requirement, or null if the tax ID is valid
  */
-export function validateGermanTaxId(taxId: string): boolean {
+export function getGermanTaxIdError(taxId: string): ValidationErrorCodeType | null {
+  if (typeof taxId !== 'string' || !taxId.trim()) {
+    return ValidationErrorCode.EMPTY;
+  }
+
   // Remove any whitespace
   const cleanedTaxId = taxId.trim().replace(/\s/g, '');
 
   // German tax ID must be exactly 11 digits
-  if (!/^\d{11}$/.test(cleanedTaxId)) {
-    return false;
+  if (!/^\d+$/.test(cleanedTaxId)) {
+    return ValidationErrorCode.INVALID_CHARACTERS;
+  }
+  if (cleanedTaxId.length !== 11) {
+    return ValidationErrorCode.INVALID_LENGTH;
+  }
+  if (cleanedTaxId.charAt(0) === '0') {
+    return ValidationErrorCode.LEADING_ZERO;
   }
 
   // Extract the first 10 digits and the check digit (last digit)
   const mainDigits = cleanedTaxId.substring(0, 10);
   const providedCheckDigit = parseInt(cleanedTaxId.charAt(10), 10);
 
+  const structureError = getTaxIdStructureError(mainDigits);
+  if (structureError) {
+    return structureError;
+  }
+
   // Calculate what the check digit should be
   const calculatedCheckDigit = calculateTaxIdCheckDigit(mainDigits);
 
   // Validate by comparing calculated check digit with provided check digit
-  return calculatedCheckDigit === providedCheckDigit;
+  if (calculatedCheckDigit !== providedCheckDigit) {
+    return ValidationErrorCode.INVALID_CHECKSUM;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a German tax ID (Steueridentifikationsnummer) and returns the
+ * normalized 11 digits and the check digit
+ */
+export function validateGermanTaxIdDetailed(taxId: string): ValidationResult<TaxIdMetadata> {
+  const error = getGermanTaxIdError(taxId);
+  if (error) {
+    return { valid: false, normalized: null, errors: [error], metadata: {} };
+  }
+
+  const normalized = taxId.trim().replace(/\s/g, '');
+  return {
+    valid: true,
+    normalized,
+    errors: [],
+    metadata: { checkDigit: parseInt(normalized.charAt(10), 10) },
+  };
+}
+
+/**
+ * Validates a German tax ID (Steueridentifikationsnummer)
+ * Requirements:
+ * - Must be exactly 11 digits
+ * - First digit must not be 0
+ * - In the first 10 digits, exactly one digit appears two or three times, but
+ *   not three times in a row; all other digits appear at most once
+ * - Last digit must be a valid check digit according to modulo 11 algorithm
+ */
+export function validateGermanTaxId(taxId: string): boolean {
+  return validateGermanTaxIdDetailed(taxId).valid;
+}
+
+/**
+ * Checks a German tax number (Steuernummer)
+ *
+ * @returns The error code reported by validateSteuernummer, or null if the tax number is valid
+ */
+export function getGermanTaxNumberError(
+  taxNumber: string,
+  options?: SteuernummerValidationOptions
+): ValidationErrorCodeType | null {
+  const result = validateSteuernummer(taxNumber, options);
+  return result.valid ? null : (result.errorCode ?? ValidationErrorCode.INVALID_FORMAT);
+}
+
+/**
+ * Validates a German tax number (Steuernummer) and returns the 13-digit ELSTER
+ * number and the issuing Finanzamt
+ *
+ * Ambiguous Länder format numbers are valid but have no normalized value; their
+ * Finanzämter are listed in metadata.candidates.
+ */
+export function validateGermanTaxNumberDetailed(
+  taxNumber: string,
+  options?: SteuernummerValidationOptions
+): ValidationResult<TaxNumberMetadata> {
+  const result = validateSteuernummer(taxNumber, options);
+
+  const metadata: TaxNumberMetadata = {};
+  if (result.bufa) {
+    metadata.bufa = result.bufa;
+    metadata.bundesland = result.bundesland;
+    const asOf = options?.asOf !== undefined ? toIsoDate(options.asOf) : null;
+    metadata.finanzamt = getFinanzamt(result.bufa, FinanzamtMode.TEST, asOf ?? undefined)?.name;
+  }
+  if (result.isTest !== undefined) {
+    metadata.isTest = result.isTest;
+  }
+  if (result.kind) {
+    metadata.kind = result.kind;
+  }
+  if (result.successor) {
+    metadata.successor = result.successor;
+  }
+  if (result.ambiguous !== undefined) {
+    metadata.ambiguous = result.ambiguous;
+    metadata.candidates = result.candidates;
+  }
+
+  return {
+    valid: result.valid,
+    normalized: (result.valid && result.normalized) || null,
+    errors: result.valid ? [] : [result.errorCode ?? ValidationErrorCode.INVALID_FORMAT],
+    ...(result.warnings && { warnings: result.warnings }),
+    metadata,
+  };
 }
 
 /**
  * Validates a German tax number (Steuernummer)
  * German tax numbers can have different formats depending on the federal state
  * This validates the unified federal format (13 digits) and common state formats (10-11 digits)
+ * Pass a Bundesland, Landesnummer or BUFA in options to restrict the issuing Finanzamt
  */
-export function validateGermanTaxNumber(taxNumber: string): boolean {
-  const result = validateSteuernummer(taxNumber);
-  return result.valid;
+export function validateGermanTaxNumber(
+  taxNumber: string,
+  options?: SteuernummerValidationOptions
+): boolean {
+  return validateGermanTaxNumberDetailed(taxNumber, options).valid;
 }
 
 /**
- * Validates an IBAN (International Bank Account Number) using mod-97 algorithm
+ * Checks a German VAT ID (Umsatzsteuer-Identifikationsnummer)
+ * Requirements:
+ * - "DE" followed by 9 digits; the prefix may be omitted or followed by spaces
+ * - First digit must not be 0
+ * - The first 8 digits must not all be the same
+ * - Last digit must be a valid check digit according to ISO 7064 MOD 11,10
+ *
+ * @returns The error code of the first failed requirement, or null if the VAT ID is valid
+ */
+export function getGermanVatIdError(vatId: string): ValidationErrorCodeType | null {
+  if (typeof vatId !== 'string' || !vatId.trim()) {
+    return ValidationErrorCode.EMPTY;
+  }
+
+  const digits = stripGermanVatIdPrefix(vatId);
+  if (!/^\d*$/.test(digits)) {
+    return ValidationErrorCode.INVALID_CHARACTERS;
+  }
+  if (digits.length !== 9) {
+    return ValidationErrorCode.INVALID_LENGTH;
+  }
+  if (digits.charAt(0) === '0') {
+    return ValidationErrorCode.LEADING_ZERO;
+  }
+
+  // Bodies of a single repeated digit are never issued
+  const body = digits.substring(0, 8);
+  if (/^(\d)\1*$/.test(body)) {
+    return ValidationErrorCode.INVALID_FORMAT;
+  }
+
+  if (calculateMod11_10CheckDigit(body) !== parseInt(digits.charAt(8), 10)) {
+    return ValidationErrorCode.INVALID_CHECKSUM;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a German VAT ID (Umsatzsteuer-Identifikationsnummer) and returns
+ * it as "DE" followed by 9 digits
+ */
+export function validateGermanVatIdDetailed(vatId: string): ValidationResult<VatIdMetadata> {
+  const error = getGermanVatIdError(vatId);
+  if (error) {
+    return { valid: false, normalized: null, errors: [error], metadata: {} };
+  }
+
+  const digits = stripGermanVatIdPrefix(vatId);
+  return {
+    valid: true,
+    normalized: `DE${digits}`,
+    errors: [],
+    metadata: { countryCode: 'DE', checkDigit: parseInt(digits.charAt(8), 10) },
+  };
+}
+
+/**
+ * Validates a German VAT ID (Umsatzsteuer-Identifikationsnummer)
+ * Format: DE + 9 digits, e.g. "DE136695976" or "DE 136 695 976"
+ * - First digit must not be 0
+ * - Last digit must be a valid check digit according to ISO 7064 MOD 11,10
+ */
+export function validateGermanVatId(vatId: string): boolean {
+  return validateGermanVatIdDetailed(vatId).valid;
+}
+
+/**
+ * Removes whitespace and the optional "DE" prefix
+ */
+function stripGermanVatIdPrefix(vatId: string): string {
+  return vatId.replace(/\s/g, '').toUpperCase().replace(/^DE/, '');
+}
+
+/**
+ * Checks an IBAN (International Bank Account Number) using mod-97 algorithm
  * Based on ISO 13616 standard
+ *
+ * @returns The error code of the first failed check, or null if the IBAN is valid
  */
-export function validateIBAN(iban: string): boolean {
+export function getIBANError(iban: string): ValidationErrorCodeType | null {
+  if (typeof iban !== 'string' || !iban.trim()) {
+    return ValidationErrorCode.EMPTY;
+  }
+
   // Remove all whitespace and convert to uppercase
   const cleaned = iban.trim().replace(/\s/g, '').toUpperCase();
 
+  // Only letters and digits are allowed
+  if (!/^[A-Z0-9]+$/.test(cleaned)) {
+    return ValidationErrorCode.INVALID_CHARACTERS;
+  }
+
   // IBAN must be 15-34 characters (varies by country)
   if (cleaned.length < 15 || cleaned.length > 34) {
-    return false;
+    return ValidationErrorCode.INVALID_LENGTH;
   }
 
   // First two characters must be letters (country code)
   // Next two characters must be digits (check digits)
   // Remaining characters are alphanumeric
   if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(cleaned)) {
-    return false;
+    return ValidationErrorCode.INVALID_FORMAT;
   }
 
   // Validate country code against ISO 13616 IBAN-compliant countries
   const countryCode = cleaned.substring(0, 2);
   const validCodes = validCountryCodes.countryCodes;
   if (!validCodes.includes(countryCode)) {
-    return false;
+    return ValidationErrorCode.UNKNOWN_COUNTRY;
   }
 
   // Validate using mod-97 algorithm (ISO 7064)
@@ -128,25 +369,66 @@ export function validateIBAN(iban: string): boolean {
   }
 
   // Valid IBAN has remainder of 1
-  return remainder === 1;
+  if (remainder !== 1) {
+    return ValidationErrorCode.INVALID_CHECKSUM;
+  }
+
+  return null;
 }
 
 /**
- * Validates a BIC/SWIFT code (Bank Identifier Code)
+ * Validates an IBAN (International Bank Account Number) using mod-97 algorithm
+ * Based on ISO 13616 standard
+ */
+export function validateIBAN(iban: string): boolean {
+  return validateIBANDetailed(iban).valid;
+}
+
+/**
+ * Validates an IBAN and returns it without spaces in upper case, split into
+ * country code, check digits and BBAN
+ */
+export function validateIBANDetailed(iban: string): ValidationResult<IbanMetadata> {
+  const error = getIBANError(iban);
+  if (error) {
+    return { valid: false, normalized: null, errors: [error], metadata: {} };
+  }
+
+  const normalized = iban.trim().replace(/\s/g, '').toUpperCase();
+  return {
+    valid: true,
+    normalized,
+    errors: [],
+    metadata: {
+      countryCode: normalized.substring(0, 2),
+      checkDigits: normalized.substring(2, 4),
+      bban: normalized.substring(4),
+    },
+  };
+}
+
+/**
+ * Checks a BIC/SWIFT code (Bank Identifier Code)
  * Based on ISO 9362 standard
- * Format: AAAA BB CC [DDD]
- * - AAAA: 4 letter bank code
- * - BB: 2 letter country code (ISO 3166-1 alpha-2)
- * - CC: 2 character location code (letters or digits)
- * - DDD: Optional 3 character branch code (letters or digits)
+ *
+ * @returns The error code of the first failed check, or null if the BIC is valid
  */
-export function validateBIC(bic: string): boolean {
+export function getBICError(bic: string): ValidationErrorCodeType | null {
+  if (typeof bic !== 'string' || !bic.trim()) {
+    return ValidationErrorCode.EMPTY;
+  }
+
   // Remove whitespace and convert to uppercase
   const cleaned = bic.trim().replace(/\s/g, '').toUpperCase();
 
+  // Only letters and digits are allowed
+  if (!/^[A-Z0-9]+$/.test(cleaned)) {
+    return ValidationErrorCode.INVALID_CHARACTERS;
+  }
+
   // BIC must be either 8 or 11 characters
   if (cleaned.length !== 8 && cleaned.length !== 11) {
-    return false;
+    return ValidationErrorCode.INVALID_LENGTH;
   }
 
   // Validate format:
@@ -157,12 +439,12 @@ export function validateBIC(bic: string): boolean {
   if (cleaned.length === 8) {
     // Format: AAAABBCC
     if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}$/.test(cleaned)) {
-      return false;
+      return ValidationErrorCode.INVALID_FORMAT;
     }
   } else {
     // Format: AAAABBCCDDD
     if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}[A-Z0-9]{3}$/.test(cleaned)) {
-      return false;
+      return ValidationErrorCode.INVALID_FORMAT;
     }
   }
 
@@ -170,34 +452,92 @@ export function validateBIC(bic: string): boolean {
   const countryCode = cleaned.substring(4, 6);
   const validCodes = validCountryCodes.countryCodes;
   if (!validCodes.includes(countryCode)) {
-    return false;
+    return ValidationErrorCode.UNKNOWN_COUNTRY;
   }
 
-  return true;
+  return null;
 }
 
 /**
- * Main validation function that runs the appropriate preset validator
+ * Validates a BIC/SWIFT code (Bank Identifier Code)
+ * Based on ISO 9362 standard
+ * Format: AAAA BB CC [DDD]
+ * - AAAA: 4 letter bank code
+ * - BB: 2 letter country code (ISO 3166-1 alpha-2)
+ * - CC: 2 character location code (letters or digits)
+ * - DDD: Optional 3 character branch code (letters or digits)
+ */
+export function validateBIC(bic: string): boolean {
+  return validateBICDetailed(bic).valid;
+}
+
+/**
+ * Validates a BIC/SWIFT code and returns it without spaces in upper case,
+ * split into bank, country, location and branch code
+ */
+export function validateBICDetailed(bic: string): ValidationResult<BicMetadata> {
+  const error = getBICError(bic);
+  if (error) {
+    return { valid: false, normalized: null, errors: [error], metadata: {} };
+  }
+
+  const normalized = bic.trim().replace(/\s/g, '').toUpperCase();
+  const metadata: BicMetadata = {
+    bankCode: normalized.substring(0, 4),
+    countryCode: normalized.substring(4, 6),
+    locationCode: normalized.substring(6, 8),
+  };
+  if (normalized.length === 11) {
+    metadata.branchCode = normalized.substring(8);
+  }
+
+  return { valid: true, normalized, errors: [], metadata };
+}
+
+/**
+ * Detailed variant of runValidationPreset
  * @param presetKey - The validation preset type
  * @param value - The value to validate
- * @returns boolean indicating if the value is valid
+ * @returns The validity, normalized value, error codes and preset-specific metadata
  */
-export function runValidationPreset(presetKey: ValidationPresetType, value: string): boolean {
+export function runValidationPresetDetailed(
+  presetKey: ValidationPresetType,
+  value: string
+): ValidationResult {
   if (!value || typeof value !== 'string') {
-    return false;
+    return { valid: false, normalized: null, errors: [ValidationErrorCode.EMPTY], metadata: {} };
   }
 
   switch (presetKey) {
     case ValidationPreset.TAX_ID:
-      return validateGermanTaxId(value);
+      return validateGermanTaxIdDetailed(value);
     case ValidationPreset.IBAN:
-      return validateIBAN(value);
+      return validateIBANDetailed(value);
     case ValidationPreset.BIC:
-      return validateBIC(value);
+      return validateBICDetailed(value);
     case ValidationPreset.TAX_NUMBER:
-      return validateGermanTaxNumber(value);
+      return validateGermanTaxNumberDetailed(value);
+    case ValidationPreset.VAT_ID:
+      return validateGermanVatIdDetailed(value);
+    case ValidationPreset.EU_VAT_ID:
+      return validateEuVatIdDetailed(value);
     default:
       console.warn(`[runValidationPreset] Unknown validation preset: "${presetKey}"`);
-      return false;
+      return {
+        valid: false,
+        normalized: null,
+        errors: [ValidationErrorCode.UNKNOWN_PRESET],
+        metadata: {},
+      };
   }
 }
+
+/**
+ * Main validation function that runs the appropriate preset validator
+ * @param presetKey - The validation preset type
+ * @param value - The value to validate
+ * @returns boolean indicating if the value is valid
+ */
+export function runValidationPreset(presetKey: ValidationPresetType, value: string): boolean {
+  return runValidationPresetDetailed(presetKey, value).valid;
+}
@@ -0,0 +1,42 @@
+/**
+ * Returns a random number generator for test data
+ *
+ * With a seed, the generator is deterministic (mulberry32), so the same seed
+ * always produces the same values. Without a seed, Math.random is used.
+ * Neither is suitable for anything security-related.
+ *
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a random integer in [0, max)
+ */
+export function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * max);
+}
+
+/**
+ * Returns a shuffled copy of the values (Fisher-Yates)
+ */
+export function shuffle<T>(random: () => number, values: readonly T[]): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
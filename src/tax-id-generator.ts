@@ -0,0 +1,36 @@
+import { completeGermanTaxId, getGermanTaxIdError } from './preset-validation.helper';
+import { createRandom, randomInt, shuffle } from './random';
+
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Generates a valid German tax ID (Steueridentifikationsnummer) for test data
+ *
+ * The tax ID meets all structural rules of getGermanTaxIdError and carries
+ * the check digit of calculateTaxIdCheckDigit. It is not necessarily unissued.
+ *
+ * @param seed - Makes the result reproducible: the same seed always yields the same tax ID
+ * @returns The 11 digits of the tax ID
+ */
+export function generateGermanTaxId(seed?: number): string {
+  const random = createRandom(seed);
+
+  for (;;) {
+    const taxId = completeGermanTaxId(generateBody(random));
+    if (getGermanTaxIdError(taxId) === null) {
+      return taxId;
+    }
+  }
+}
+
+/**
+ * Draws 10 digits in which exactly one digit appears two or three times;
+ * bodies starting with 0 or with a tripled digit in a row are rejected by
+ * the caller
+ */
+function generateBody(random: () => number): string {
+  const repetitions = 2 + randomInt(random, 2);
+  const [repeated, ...others] = shuffle(random, DIGITS).slice(0, 11 - repetitions);
+
+  return shuffle(random, [...others, ...Array<string>(repetitions).fill(repeated)]).join('');
+}
@@ -0,0 +1,14 @@
+import { FinanzamtInfo } from './finanzamtsdaten';
+
+/**
+ * Finanzämter that were closed, merged or renumbered
+ *
+ * Each entry keeps the BUFA and data the office had, its validTo date and the
+ * BUFA of its successor. A BUFA can appear more than once if it was reused.
+ * Steuernummern of these offices only validate with an asOf date within the
+ * office's lifetime. No closure is bundled yet; entries with a validTo date
+ * passed to registerFinanzaemter are added here until resetFinanzamtData.
+ * Known gaps without a sourced closure date and successor are the Berlin
+ * BUFAs 1122, 1126 and 1128; their numbers are reported as UNKNOWN_BUFA.
+ */
+export const CLOSED_FINANZAEMTER: FinanzamtInfo[] = [];
@@ -0,0 +1,15 @@
+import { FinanzamtKontaktdaten } from './finanzamtsdaten';
+
+/**
+ * Addresses, contact details and bank accounts of the production Finanzämter, keyed by BUFA
+ *
+ * Generated by scripts/generate-finanzamtsdaten.js from the GemFA dataset
+ * (Gemeinsames Finanzamtsverzeichnis) published by the Bundeszentralamt für
+ * Steuern, together with PRODUCTION_BUFA_MAP. Only data from that dataset
+ * belongs here; Finanzämter without an entry have no contact fields. The
+ * entries are merged into BUFA_MAP. No export has been generated into this
+ * file yet, so it ships empty.
+ */
+// BEGIN GENERATED by scripts/generate-finanzamtsdaten.js
+export const FINANZAMT_KONTAKTDATEN: Record<string, FinanzamtKontaktdaten> = {};
+// END GENERATED
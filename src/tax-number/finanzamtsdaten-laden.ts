@@ -0,0 +1,158 @@
+import { BUFA_MAP, FinanzamtInfo, getFinanzamtKind, toIsoDate } from './finanzamtsdaten';
+import { CLOSED_FINANZAEMTER } from './finanzamtsdaten-historie';
+import { FinanzamtDataIssue, verifyFinanzamtData } from './finanzamtsdaten-pruefung';
+import { TEST_BUFA_MAP } from './finanzamtsdaten-test';
+import { UMSCHLUESSELUNGEN, Umschluesselung } from './finanzamtsdaten-umschluesselung';
+import { findLaenderFormat } from './laenderformate';
+
+const REQUIRED_FIELDS = ['bufa', 'name', 'bundesland', 'landesnummer', 'finanzamtsnummer'] as const;
+
+// The bundled data, restored by resetFinanzamtData
+const BUNDLED_BUFA_MAP = copyEntries(BUFA_MAP);
+const BUNDLED_TEST_BUFA_MAP = copyEntries(TEST_BUFA_MAP);
+const BUNDLED_CLOSED_FINANZAEMTER = CLOSED_FINANZAEMTER.map((info) => ({ ...info }));
+const BUNDLED_UMSCHLUESSELUNGEN = UMSCHLUESSELUNGEN.map((rule) => ({ ...rule }));
+
+/**
+ * Adds Finanzämter at runtime or replaces bundled ones with the same BUFA
+ *
+ * Entries flagged isTest are registered as ELSTER test Finanzämter, entries
+ * with a validTo date as closed Finanzämter, all others as production
+ * Finanzämter. Entries without a kind get the one
+ * derived from their name, and a Bundesland given as code ("SL") is stored
+ * under its name. The entries go through the checks of
+ * verifyFinanzamtData and are only registered if none of them has an issue;
+ * a list holding the same BUFA twice is an issue as well.
+ * Lookups and validations use them until resetFinanzamtData is called.
+ *
+ * @param finanzaemter - Finanzämter keyed by BUFA, or a list of Finanzämter
+ * @returns The issues found, empty if the Finanzämter were registered
+ */
+export function registerFinanzaemter(
+  finanzaemter: Record<string, FinanzamtInfo> | FinanzamtInfo[]
+): FinanzamtDataIssue[] {
+  const entries = Array.isArray(finanzaemter)
+    ? Object.fromEntries(finanzaemter.map((info) => [info?.bufa, info]))
+    : finanzaemter;
+
+  const issues = Object.entries(entries).flatMap(([bufa, info]) => checkShape(bufa, info));
+  if (Array.isArray(finanzaemter)) issues.push(...findDuplicates(finanzaemter));
+  if (issues.length > 0) return issues;
+
+  issues.push(...verifyFinanzamtData(entries));
+  Object.entries(entries)
+    .filter(([, info]) => !info.validTo)
+    .filter(([bufa, info]) => (info.isTest ? BUFA_MAP[bufa] : TEST_BUFA_MAP[bufa]))
+    .forEach(([bufa]) =>
+      issues.push({ bufa, field: 'isTest', message: 'BUFA is both a production and a test Finanzamt' })
+    );
+  if (issues.length > 0) return issues;
+
+  Object.entries(entries).forEach(([bufa, info]) => {
+    const registered = {
+      ...info,
+      bundesland: findLaenderFormat(info.bundesland)?.bundesland ?? info.bundesland,
+      kind: getFinanzamtKind(info),
+    };
+    if (info.validTo) {
+      CLOSED_FINANZAEMTER.push(registered);
+    } else {
+      (info.isTest ? TEST_BUFA_MAP : BUFA_MAP)[bufa] = registered;
+    }
+  });
+  return [];
+}
+
+/**
+ * Registers the Finanzämter of a JSON document, e.g. the content of a file
+ *
+ * @param json - An object keyed by BUFA or an array of Finanzämter
+ * @returns The issues found, empty if the Finanzämter were registered
+ * @throws If the document is not valid JSON or neither an object nor an array
+ */
+export function loadFinanzamtData(json: string): FinanzamtDataIssue[] {
+  const data: unknown = JSON.parse(json);
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Finanzamt data must be an object keyed by BUFA or an array');
+  }
+  return registerFinanzaemter(data as Record<string, FinanzamtInfo> | FinanzamtInfo[]);
+}
+
+/**
+ * Adds renumbering rules at runtime, e.g. from a Land's published table
+ *
+ * convertSteuernummer uses them until resetFinanzamtData is called.
+ *
+ * @throws If a rule has no 4-digit BUFAs, no ISO validFrom date or
+ *   Bezirksnummern that are not digits
+ */
+export function registerUmschluesselungen(rules: Umschluesselung[]): void {
+  rules.forEach((rule, index) => {
+    const bezirke = Object.entries(rule.bezirke ?? {}).flat();
+    if (
+      !/^\d{4}$/.test(rule.fromBufa) ||
+      !/^\d{4}$/.test(rule.toBufa) ||
+      toIsoDate(rule.validFrom) !== rule.validFrom ||
+      bezirke.some((bezirk) => !/^\d{3,4}$/.test(bezirk))
+    ) {
+      throw new Error(`Invalid Umschlüsselung at index ${index}`);
+    }
+  });
+
+  UMSCHLUESSELUNGEN.push(...rules.map((rule) => ({ ...rule })));
+}
+
+/**
+ * Removes all Finanzämter and renumberings registered at runtime and restores
+ * the bundled data
+ */
+export function resetFinanzamtData(): void {
+  restore(BUFA_MAP, BUNDLED_BUFA_MAP);
+  restore(TEST_BUFA_MAP, BUNDLED_TEST_BUFA_MAP);
+  CLOSED_FINANZAEMTER.splice(
+    0,
+    CLOSED_FINANZAEMTER.length,
+    ...BUNDLED_CLOSED_FINANZAEMTER.map((info) => ({ ...info }))
+  );
+  UMSCHLUESSELUNGEN.splice(
+    0,
+    UMSCHLUESSELUNGEN.length,
+    ...BUNDLED_UMSCHLUESSELUNGEN.map((rule) => ({ ...rule }))
+  );
+}
+
+/**
+ * Checks that an entry has the fields verifyFinanzamtData relies on, which
+ * data parsed from JSON does not guarantee
+ */
+function checkShape(bufa: string, info: unknown): FinanzamtDataIssue[] {
+  if (typeof info !== 'object' || info === null) {
+    return [{ bufa, field: 'bufa', message: 'Finanzamt must be an object' }];
+  }
+  return REQUIRED_FIELDS.filter(
+    (field) => typeof (info as Record<string, unknown>)[field] !== 'string'
+  ).map((field) => ({ bufa, field, message: `Field "${field}" must be a string` }));
+}
+
+/**
+ * Finds BUFAs listed more than once, which an object keyed by BUFA would
+ * silently collapse
+ */
+function findDuplicates(finanzaemter: FinanzamtInfo[]): FinanzamtDataIssue[] {
+  const bufas = finanzaemter
+    .map((info) => info?.bufa)
+    .filter((bufa): bufa is string => typeof bufa === 'string');
+  return bufas
+    .filter((bufa, index) => bufas.indexOf(bufa) !== index)
+    .filter((bufa, index, duplicates) => duplicates.indexOf(bufa) === index)
+    .map((bufa) => ({ bufa, field: 'bufa', message: 'BUFA is listed more than once' }));
+}
+
+function copyEntries(finanzaemter: Record<string, FinanzamtInfo>): Record<string, FinanzamtInfo> {
+  return Object.fromEntries(Object.entries(finanzaemter).map(([bufa, info]) => [bufa, { ...info }]));
+}
+
+function restore(target: Record<string, FinanzamtInfo>, bundled: Record<string, FinanzamtInfo>): void {
+  Object.keys(target).forEach((bufa) => delete target[bufa]);
+  Object.assign(target, copyEntries(bundled));
+}
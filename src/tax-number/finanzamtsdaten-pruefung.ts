@@ -0,0 +1,113 @@
+import { BUFA_MAP, FinanzamtInfo, FinanzamtKind } from './finanzamtsdaten';
+import { CLOSED_FINANZAEMTER } from './finanzamtsdaten-historie';
+import { TEST_BUFA_MAP } from './finanzamtsdaten-test';
+import { getLaenderFormat } from './laenderformate';
+import { LANDES_VERFAHREN, Pruefziffernverfahren } from './prufziffernverfahren';
+
+/**
+ * An inconsistency found in Finanzamt data
+ */
+export type FinanzamtDataIssue = {
+  bufa: string; // Key of the entry, or the BUFA of a closed Finanzamt
+  field: keyof FinanzamtInfo;
+  message: string;
+};
+
+/**
+ * Checks Finanzamt data for inconsistencies
+ *
+ * Every entry must be keyed by its 4-digit BUFA, optionally followed by
+ * " (alt)" for a former name of the office, the BUFA must equal
+ * landesnummer + finanzamtsnummer, the Bundesland must be the one of the
+ * Landesnummer and the Prüfziffernverfahren must be the one of the Land.
+ * Without data, checks the production, test and closed Finanzämter in use,
+ * including those registered at runtime, and also that production and test
+ * BUFAs are flagged and do not overlap.
+ *
+ * @param data - Custom Finanzämter keyed by BUFA
+ * @returns The issues found, empty if the data is consistent
+ */
+export function verifyFinanzamtData(data?: Record<string, FinanzamtInfo>): FinanzamtDataIssue[] {
+  if (data) {
+    return Object.entries(data).flatMap(([key, info]) => checkEntry(key, info));
+  }
+
+  const issues = [
+    ...Object.entries(BUFA_MAP).flatMap(([key, info]) => checkEntry(key, info, false)),
+    ...Object.entries(TEST_BUFA_MAP).flatMap(([key, info]) => checkEntry(key, info, true)),
+    ...CLOSED_FINANZAEMTER.flatMap((info) => checkEntry(info.bufa, info)),
+  ];
+
+  Object.keys(TEST_BUFA_MAP)
+    .filter((bufa) => BUFA_MAP[bufa])
+    .forEach((bufa) =>
+      issues.push({ bufa, field: 'isTest', message: 'BUFA is both a production and a test Finanzamt' })
+    );
+
+  return issues;
+}
+
+function checkEntry(key: string, info: FinanzamtInfo, isTest?: boolean): FinanzamtDataIssue[] {
+  const issues: FinanzamtDataIssue[] = [];
+  const report = (field: keyof FinanzamtInfo, message: string) =>
+    issues.push({ bufa: key, field, message });
+
+  if (info.bufa !== key) {
+    report('bufa', `BUFA "${info.bufa}" differs from its key`);
+  }
+  if (!/^\d{4}( \(alt\))?$/.test(info.bufa)) {
+    report('bufa', `BUFA "${info.bufa}" is not a 4-digit number`);
+  }
+  if (info.bufa !== `${info.landesnummer}${info.finanzamtsnummer}`) {
+    report(
+      'finanzamtsnummer',
+      `BUFA "${info.bufa}" is not Landesnummer "${info.landesnummer}" + Finanzamtsnummer "${info.finanzamtsnummer}"`
+    );
+  }
+  if (!info.name?.trim()) {
+    report('name', 'Name is missing');
+  }
+  if (info.kind !== undefined && !Object.values(FinanzamtKind).includes(info.kind)) {
+    report('kind', `Unknown kind "${info.kind}"`);
+  }
+  if (isTest !== undefined && Boolean(info.isTest) !== isTest) {
+    report('isTest', isTest ? 'Test Finanzamt is not flagged isTest' : 'Production Finanzamt is flagged isTest');
+  }
+
+  const format = getLaenderFormat(info.landesnummer);
+  if (!format) {
+    report('landesnummer', `Unknown Landesnummer "${info.landesnummer}"`);
+    return issues;
+  }
+  if (info.bundesland !== format.bundesland && info.bundesland !== format.kuerzel) {
+    report(
+      'bundesland',
+      `Bundesland "${info.bundesland}" does not match Landesnummer "${info.landesnummer}" (${format.bundesland})`
+    );
+  }
+
+  const verfahren = LANDES_VERFAHREN[info.landesnummer];
+  if (!allowedVerfahren(info.landesnummer, verfahren).includes(info.verfahren)) {
+    report(
+      'verfahren',
+      `Verfahren "${info.verfahren}" does not match the ${verfahren} of ${format.bundesland}`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * A missing verfahren and STANDARD stand for the Land's method; Berlin
+ * offices may also be pinned to one of its two 11er methods, and NRW offices
+ * may still use NRW, the former name of NRW_11
+ */
+function allowedVerfahren(
+  landesnummer: string,
+  verfahren: Pruefziffernverfahren
+): Array<FinanzamtInfo['verfahren']> {
+  const allowed: Array<FinanzamtInfo['verfahren']> = [undefined, 'STANDARD', verfahren];
+  if (landesnummer === '11') return [...allowed, 'BERLIN_A', 'BERLIN_B'];
+  if (verfahren === 'NRW_11') return [...allowed, 'NRW'];
+  return allowed;
+}
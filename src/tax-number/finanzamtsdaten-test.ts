@@ -3,6 +3,7 @@ import { FinanzamtInfo } from './finanzamtsdaten';
 /**
  * Test Finanzämter for development and testing purposes
  * These are official test tax offices provided by ELSTER for testing submissions
+ * Apart from Berlin and Bayern, every Land has one test Finanzamt with the Finanzamtsnummer 98
  */
 export const TEST_BUFA_MAP: Record<string, FinanzamtInfo> = {
   // Berlin Test Finanzämter
@@ -180,5 +181,144 @@ export const TEST_BUFA_MAP: Record<string, FinanzamtInfo> = {
     verfahren: 'ELF',
   },
 
-  // Add more test Finanzämter for other Bundesländer below:
+  // Baden-Württemberg Test Finanzamt
+  '2898': {
+    bufa: '2898',
+    name: 'Baden-Württemberg - Testfinanzamt',
+    bundesland: 'Baden-Württemberg',
+    landesnummer: '28',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ZWEIER',
+  },
+  // Brandenburg Test Finanzamt
+  '3098': {
+    bufa: '3098',
+    name: 'Brandenburg - Testfinanzamt',
+    bundesland: 'Brandenburg',
+    landesnummer: '30',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Bremen Test Finanzamt
+  '2498': {
+    bufa: '2498',
+    name: 'Bremen - Testfinanzamt',
+    bundesland: 'Bremen',
+    landesnummer: '24',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Hamburg Test Finanzamt
+  '2298': {
+    bufa: '2298',
+    name: 'Hamburg - Testfinanzamt',
+    bundesland: 'Hamburg',
+    landesnummer: '22',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Hessen Test Finanzamt
+  '2698': {
+    bufa: '2698',
+    name: 'Hessen - Testfinanzamt',
+    bundesland: 'Hessen',
+    landesnummer: '26',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ZWEIER',
+  },
+  // Mecklenburg-Vorpommern Test Finanzamt
+  '4098': {
+    bufa: '4098',
+    name: 'Mecklenburg-Vorpommern - Testfinanzamt',
+    bundesland: 'Mecklenburg-Vorpommern',
+    landesnummer: '40',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Niedersachsen Test Finanzamt
+  '2398': {
+    bufa: '2398',
+    name: 'Niedersachsen - Testfinanzamt',
+    bundesland: 'Niedersachsen',
+    landesnummer: '23',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Nordrhein-Westfalen Test Finanzamt
+  '5198': {
+    bufa: '5198',
+    name: 'Nordrhein-Westfalen - Testfinanzamt',
+    bundesland: 'Nordrhein-Westfalen',
+    landesnummer: '51',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'NRW_11',
+  },
+  // Rheinland-Pfalz Test Finanzamt
+  '2798': {
+    bufa: '2798',
+    name: 'Rheinland-Pfalz - Testfinanzamt',
+    bundesland: 'Rheinland-Pfalz',
+    landesnummer: '27',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'MOD11_RP',
+  },
+  // Saarland Test Finanzamt
+  '1098': {
+    bufa: '1098',
+    name: 'Saarland - Testfinanzamt',
+    bundesland: 'Saarland',
+    landesnummer: '10',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Sachsen Test Finanzamt
+  '3298': {
+    bufa: '3298',
+    name: 'Sachsen - Testfinanzamt',
+    bundesland: 'Sachsen',
+    landesnummer: '32',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Sachsen-Anhalt Test Finanzamt
+  '3198': {
+    bufa: '3198',
+    name: 'Sachsen-Anhalt - Testfinanzamt',
+    bundesland: 'Sachsen-Anhalt',
+    landesnummer: '31',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
+  // Schleswig-Holstein Test Finanzamt
+  '2198': {
+    bufa: '2198',
+    name: 'Schleswig-Holstein - Testfinanzamt',
+    bundesland: 'Schleswig-Holstein',
+    landesnummer: '21',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ZWEIER',
+  },
+  // Thüringen Test Finanzamt
+  '4198': {
+    bufa: '4198',
+    name: 'Thüringen - Testfinanzamt',
+    bundesland: 'Thüringen',
+    landesnummer: '41',
+    finanzamtsnummer: '98',
+    isTest: true,
+    verfahren: 'ELF',
+  },
 };
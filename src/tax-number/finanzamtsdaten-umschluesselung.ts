@@ -0,0 +1,22 @@
+/**
+ * A renumbering (Umschlüsselung) of Steuernummern after a Finanzamt reorganisation
+ */
+export type Umschluesselung = {
+  fromBufa: string;
+  toBufa: string;
+  validFrom: string; // "YYYY-MM-DD", first day the new numbers are used
+  // Old Bezirksnummer → new Bezirksnummer. When set, the rule only applies to
+  // these Bezirke, so an office split between several successors has one rule
+  // per successor. When unset, the rule applies to every Bezirk and keeps it.
+  bezirke?: Record<string, string>;
+};
+
+/**
+ * Renumbering tables of the Länder
+ *
+ * Closed Finanzämter with a successor in finanzamtsdaten-historie.ts are
+ * renumbered to it without an entry here; list only renumberings that change
+ * Bezirksnummern or split an office. No table is bundled yet; rules passed to
+ * registerUmschluesselungen are added here until resetFinanzamtData.
+ */
+export const UMSCHLUESSELUNGEN: Umschluesselung[] = [];
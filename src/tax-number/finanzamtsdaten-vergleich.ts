@@ -0,0 +1,146 @@
+import { FinanzamtInfo } from './finanzamtsdaten';
+
+/**
+ * A field of a Finanzamt that differs between two datasets
+ */
+export type FinanzamtFieldChange = {
+  field: keyof FinanzamtInfo;
+  before: unknown; // undefined if the field was not set
+  after: unknown;
+};
+
+/**
+ * A Finanzamt that exists in both datasets with different data
+ */
+export type FinanzamtChange = {
+  bufa: string;
+  before: FinanzamtInfo;
+  after: FinanzamtInfo;
+  fields: FinanzamtFieldChange[];
+};
+
+/**
+ * Differences between two Finanzamt datasets, each list sorted by BUFA
+ */
+export type FinanzamtDataDiff = {
+  added: FinanzamtInfo[];
+  removed: FinanzamtInfo[];
+  changed: FinanzamtChange[];
+};
+
+// Order of the fields in changes and changelogs; other fields follow alphabetically
+const FIELD_ORDER: Array<keyof FinanzamtInfo> = [
+  'bufa',
+  'name',
+  'bundesland',
+  'landesnummer',
+  'finanzamtsnummer',
+  'verfahren',
+  'isTest',
+];
+
+/**
+ * Compares two Finanzamt datasets keyed by BUFA
+ *
+ * An unset isTest counts as false.
+ */
+export function diffFinanzamtData(
+  before: Record<string, FinanzamtInfo>,
+  after: Record<string, FinanzamtInfo>
+): FinanzamtDataDiff {
+  const bufas = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const diff: FinanzamtDataDiff = { added: [], removed: [], changed: [] };
+
+  bufas.forEach((bufa) => {
+    const old = has(before, bufa) ? before[bufa] : undefined;
+    const current = has(after, bufa) ? after[bufa] : undefined;
+
+    if (!old && current) {
+      diff.added.push(current);
+    } else if (old && !current) {
+      diff.removed.push(old);
+    } else if (old && current) {
+      const fields = diffFields(old, current);
+      if (fields.length > 0) {
+        diff.changed.push({ bufa, before: old, after: current, fields });
+      }
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Renders a diff as a Markdown changelog for release notes
+ */
+export function formatFinanzamtChangelog(diff: FinanzamtDataDiff): string {
+  const sections: string[] = [];
+
+  if (diff.added.length > 0) {
+    sections.push(section('Added', diff.added.map(describeChange)));
+  }
+  if (diff.removed.length > 0) {
+    sections.push(section('Removed', diff.removed.map(describeChange)));
+  }
+  if (diff.changed.length > 0) {
+    sections.push(
+      section(
+        'Changed',
+        diff.changed.map(
+          (change) => `${describeChange(change.after)}: ${change.fields.map(describeFieldChange).join('; ')}`
+        )
+      )
+    );
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : 'No changes to the Finanzamt data.';
+}
+
+function diffFields(before: FinanzamtInfo, after: FinanzamtInfo): FinanzamtFieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])] as Array<
+    keyof FinanzamtInfo
+  >;
+
+  return fields
+    .sort((a, b) => fieldRank(a) - fieldRank(b) || a.localeCompare(b))
+    .filter((field) => {
+      if (field === 'isTest') return Boolean(before.isTest) !== Boolean(after.isTest);
+      return JSON.stringify(before[field]) !== JSON.stringify(after[field]);
+    })
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function fieldRank(field: keyof FinanzamtInfo): number {
+  const index = FIELD_ORDER.indexOf(field);
+  return index === -1 ? FIELD_ORDER.length : index;
+}
+
+function section(title: string, lines: string[]): string {
+  return [`### ${title} (${lines.length})`, '', ...lines.map((line) => `- ${line}`)].join('\n');
+}
+
+function describeChange(info: FinanzamtInfo): string {
+  return `${info.bufa} ${info.name} (${info.bundesland})`;
+}
+
+function describeFieldChange(change: FinanzamtFieldChange): string {
+  switch (change.field) {
+    case 'name':
+      return `renamed from "${change.before}"`;
+    case 'isTest':
+      return change.after ? 'now an ELSTER test Finanzamt' : 'no longer an ELSTER test Finanzamt';
+    case 'verfahren':
+      return `Prüfziffernverfahren ${change.before ?? 'STANDARD'} → ${change.after ?? 'STANDARD'}`;
+    default:
+      return `${change.field} ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'unset';
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+function has(finanzaemter: Record<string, FinanzamtInfo>, bufa: string): boolean {
+  return Object.prototype.hasOwnProperty.call(finanzaemter, bufa);
+}
@@ -0,0 +1,90 @@
+/**
+ * Table of responsible Finanzämter by Postleitzahl and Amtlicher Gemeindeschlüssel
+ */
+export type ZustaendigkeitsTabelle = {
+  version: string; // Increased whenever the mapping changes, below 1.0.0 until every Land is covered
+  stand: string; // Date of the underlying data, e.g. "2026-10-01"
+  // Codes of the Länder whose every Kreis is in the AGS table, e.g. ["SL"]
+  laender: string[];
+  // PLZ → BUFAs, several where a PLZ spans more than one Finanzamt
+  plz: Record<string, string[]>;
+  // AGS → BUFAs, keyed by the full 8-digit AGS or the 5-digit Kreis prefix
+  ags: Record<string, string[]>;
+};
+
+/**
+ * Codes of the Länder by the Landesschlüssel, the first two digits of an AGS
+ */
+export const AGS_LANDESSCHLUESSEL: Record<string, string> = {
+  '01': 'SH',
+  '02': 'HH',
+  '03': 'NI',
+  '04': 'HB',
+  '05': 'NW',
+  '06': 'HE',
+  '07': 'RP',
+  '08': 'BW',
+  '09': 'BY',
+  '10': 'SL',
+  '11': 'BE',
+  '12': 'BB',
+  '13': 'MV',
+  '14': 'SN',
+  '15': 'ST',
+  '16': 'TH',
+};
+
+/**
+ * Responsible Finanzämter for place-of-residence lookups, bundled for offline use
+ *
+ * Only holds mappings taken from the Zuständigkeitsverzeichnisse of the Länder.
+ * The AGS table covers every Kreis of Saarland and no other Land; the PLZ
+ * table only holds the main PLZ of the Saarland towns with a Finanzamt. The
+ * lookups report places outside this data as not covered.
+ */
+export const ZUSTAENDIGKEITEN: ZustaendigkeitsTabelle = {
+  version: '0.1.0',
+  stand: '2026-10-01',
+  laender: ['SL'],
+  plz: {
+    // Saarbrücken
+    '66111': ['1040', '1055'],
+    '66113': ['1040', '1055'],
+    '66115': ['1040', '1055'],
+    '66117': ['1040', '1055'],
+    '66119': ['1040', '1055'],
+    '66121': ['1040', '1055'],
+    '66123': ['1040', '1055'],
+    '66125': ['1040', '1055'],
+    '66126': ['1040', '1055'],
+    '66127': ['1040', '1055'],
+    '66128': ['1040', '1055'],
+    '66129': ['1040', '1055'],
+    '66130': ['1040', '1055'],
+    '66131': ['1040', '1055'],
+    '66132': ['1040', '1055'],
+    '66133': ['1040', '1055'],
+    // St. Ingbert
+    '66386': ['1085'],
+    // Homburg
+    '66424': ['1075'],
+    // Neunkirchen
+    '66538': ['1030'],
+    '66539': ['1030'],
+    '66540': ['1030'],
+    // St. Wendel
+    '66606': ['1060'],
+    // Merzig
+    '66663': ['1020'],
+    // Saarlouis
+    '66740': ['1010'],
+  },
+  ags: {
+    '10041': ['1040', '1055'], // Regionalverband Saarbrücken
+    '10042': ['1020'], // Merzig-Wadern
+    '10043': ['1030'], // Neunkirchen
+    '10044': ['1010'], // Saarlouis
+    '10045': ['1075', '1085'], // Saarpfalz-Kreis
+    '10046': ['1060'], // St. Wendel
+  },
+};
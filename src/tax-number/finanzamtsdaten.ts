@@ -1,6 +1,65 @@
-// TODO: Add more test Finanzämter for other Bundesländer in finanzamtsdaten-test.ts
+import { CLOSED_FINANZAEMTER } from './finanzamtsdaten-historie';
+import { FINANZAMT_KONTAKTDATEN } from './finanzamtsdaten-kontakt';
 import { TEST_BUFA_MAP } from './finanzamtsdaten-test';
 
+/**
+ * Street address of a Finanzamt
+ */
+export type FinanzamtHausanschrift = {
+  strasse: string; // Street and house number, e.g. "Am Stadtgraben 2-4"
+  plz: string;
+  ort: string;
+};
+
+/**
+ * Postal address of a Finanzamt, either a Postfach or a Großkunden-PLZ
+ */
+export type FinanzamtPostanschrift = {
+  postfach?: string; // e.g. "10 01 52"
+  plz: string;
+  ort: string;
+};
+
+/**
+ * Contact details of a Finanzamt
+ */
+export type FinanzamtKontakt = {
+  telefon?: string;
+  telefax?: string;
+  email?: string;
+  internet?: string;
+};
+
+/**
+ * Bank account of a Finanzamt, e.g. at the Bundesbank or a Landesbank
+ */
+export type FinanzamtBankverbindung = {
+  bank: string; // e.g. "Deutsche Bundesbank, Filiale Saarbrücken"
+  iban: string;
+  bic: string;
+};
+
+/**
+ * What a Finanzamt is responsible for
+ * - general: all taxes of the people and businesses in its district
+ * - corporations: Körperschaften or large businesses and their audits
+ * - investigation: Steuerfahndung and criminal tax matters
+ * - realEstateTransfer: Grunderwerbsteuer and other Verkehrsteuern
+ * - wageTax: Lohnsteuer of employers
+ * - international: taxpayers abroad, e.g. pensioners living abroad
+ * - propertyValuation: Bewertung of real estate, e.g. for the Grundsteuer
+ * - inheritanceTax: Erbschaft- and Schenkungsteuer
+ */
+export type FinanzamtKindType =
+  | 'general'
+  | 'corporations'
+  | 'investigation'
+  | 'realEstateTransfer'
+  | 'wageTax'
+  | 'international'
+  | 'propertyValuation'
+  | 'inheritanceTax';
+
 export type FinanzamtInfo = {
   bufa: string; // e.g. "1116"
   bundesland: string; // "BE"
@@ -18,8 +77,27 @@ export type FinanzamtInfo = {
     | 'MOD11_RP'
     | 'NRW_11';
   isTest?: boolean;
+  kind?: FinanzamtKindType; // Set for all bundled Finanzämter, see classifyFinanzamt
+  // Contact data from the GemFA dataset, see finanzamtsdaten-kontakt.ts
+  hausanschrift?: FinanzamtHausanschrift;
+  postanschrift?: FinanzamtPostanschrift;
+  kontakt?: FinanzamtKontakt;
+  bankverbindungen?: FinanzamtBankverbindung[];
+  // History, dates as "YYYY-MM-DD"; unset means the office has always existed or still exists
+  validFrom?: string; // First day the office existed
+  validTo?: string; // Last day the office existed
+  successor?: string; // BUFA of the office that took over its Steuernummern
 };
 
+/**
+ * The contact fields of a Finanzamt
+ */
+export type FinanzamtKontaktdaten = Pick<
+  FinanzamtInfo,
+  'hausanschrift' | 'postanschrift' | 'kontakt' | 'bankverbindungen'
+>;
+
+// BEGIN GENERATED by scripts/generate-finanzamtsdaten.js
 // Production Finanzämter (real tax offices)
 const PRODUCTION_BUFA_MAP: Record<string, FinanzamtInfo> = {
   '1010': {
@@ -5126,9 +5204,194 @@ const PRODUCTION_BUFA_MAP: Record<string, FinanzamtInfo> = {
     verfahren: 'ELF',
   },
 };
+// END GENERATED
 
-// Merged map containing both production and test Finanzämter
-export const BUFA_MAP: Record<string, FinanzamtInfo> = {
-  ...PRODUCTION_BUFA_MAP,
-  ...TEST_BUFA_MAP, // TODO: Remove this after testing
-};
+/**
+ * Finanzamt kind enum for consistency
+ */
+export const FinanzamtKind = {
+  GENERAL: 'general' as const,
+  CORPORATIONS: 'corporations' as const,
+  INVESTIGATION: 'investigation' as const,
+  REAL_ESTATE_TRANSFER: 'realEstateTransfer' as const,
+  WAGE_TAX: 'wageTax' as const,
+  INTERNATIONAL: 'international' as const,
+  PROPERTY_VALUATION: 'propertyValuation' as const,
+  INHERITANCE_TAX: 'inheritanceTax' as const,
+} as const;
+
+/**
+ * Name patterns of specialised Finanzämter, checked in order
+ */
+const KIND_PATTERNS: Array<[RegExp, FinanzamtKindType]> = [
+  [/Fahndung|Strafsachen|Finanzkriminalität/i, FinanzamtKind.INVESTIGATION],
+  [/Körpersch|Großunternehmen|Konzernprüfung|Prüfungsdienste/i, FinanzamtKind.CORPORATIONS],
+  [/Grunderwerbsteuer|Verkehrst/i, FinanzamtKind.REAL_ESTATE_TRANSFER],
+  [/Lohnsteuer/i, FinanzamtKind.WAGE_TAX],
+  [/International|Ausland/i, FinanzamtKind.INTERNATIONAL],
+  [/Bewertung/i, FinanzamtKind.PROPERTY_VALUATION],
+  [/Erb.*Schenk/i, FinanzamtKind.INHERITANCE_TAX],
+];
+
+/**
+ * Derives the kind of a Finanzamt from its name, e.g. "investigation" for
+ * "für Fahndung und Strafsachen Berlin"; offices without a specialisation in
+ * their name are "general"
+ */
+export function classifyFinanzamt(name: string): FinanzamtKindType {
+  return KIND_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? FinanzamtKind.GENERAL;
+}
+
+/**
+ * Returns the kind a Finanzamt declares, or else the one derived from its name
+ */
+export function getFinanzamtKind(info: Pick<FinanzamtInfo, 'name' | 'kind'>): FinanzamtKindType {
+  return info.kind ?? classifyFinanzamt(info.name);
+}
+
+// Production Finanzämter only, with their contact data; test Finanzämter are looked up with getFinanzamt
+export const BUFA_MAP: Record<string, FinanzamtInfo> = withKind(
+  withKontaktdaten(PRODUCTION_BUFA_MAP, FINANZAMT_KONTAKTDATEN)
+);
+
+// The test Finanzämter get their kind the same way, keeping the map registerFinanzaemter adds to
+Object.assign(TEST_BUFA_MAP, withKind(TEST_BUFA_MAP));
+
+/**
+ * Adds the contact data to the Finanzämter it belongs to
+ */
+function withKontaktdaten(
+  finanzaemter: Record<string, FinanzamtInfo>,
+  kontaktdaten: Record<string, FinanzamtKontaktdaten>
+): Record<string, FinanzamtInfo> {
+  const result: Record<string, FinanzamtInfo> = {};
+  for (const [bufa, info] of Object.entries(finanzaemter)) {
+    result[bufa] = kontaktdaten[bufa] ? { ...info, ...kontaktdaten[bufa] } : info;
+  }
+  return result;
+}
+
+/**
+ * Adds the kind to the Finanzämter that don't declare one
+ */
+function withKind(finanzaemter: Record<string, FinanzamtInfo>): Record<string, FinanzamtInfo> {
+  const result: Record<string, FinanzamtInfo> = {};
+  for (const [bufa, info] of Object.entries(finanzaemter)) {
+    result[bufa] = { ...info, kind: getFinanzamtKind(info) };
+  }
+  return result;
+}
+
+/**
+ * Which Finanzämter a lookup accepts
+ * - production: real tax offices only
+ * - test: real tax offices and ELSTER test Finanzämter (sandbox)
+ * - optional: like test, but accepted test Finanzämter are reported with a warning
+ */
+export type FinanzamtModeType = 'production' | 'test' | 'optional';
+
+/**
+ * Finanzamt mode enum for consistency
+ */
+export const FinanzamtMode = {
+  PRODUCTION: 'production' as const,
+  TEST: 'test' as const,
+  OPTIONAL: 'optional' as const,
+} as const;
+
+let defaultFinanzamtMode: FinanzamtModeType = FinanzamtMode.PRODUCTION;
+
+/**
+ * Sets the mode used by lookups and validations that don't pass their own
+ */
+export function setDefaultFinanzamtMode(mode: FinanzamtModeType): void {
+  if (!Object.values(FinanzamtMode).includes(mode)) {
+    throw new Error(`Unknown Finanzamt mode "${mode}"`);
+  }
+  defaultFinanzamtMode = mode;
+}
+
+/**
+ * Returns the mode used by lookups and validations that don't pass their own
+ */
+export function getDefaultFinanzamtMode(): FinanzamtModeType {
+  return defaultFinanzamtMode;
+}
+
+/**
+ * Looks up a Finanzamt by its BUFA number
+ *
+ * @param mode - Whether ELSTER test Finanzämter are included, defaults to the default mode
+ * @param asOf - Date ("YYYY-MM-DD") the office must have existed on, defaults to today
+ * @returns The Finanzamt, or undefined if the BUFA is unknown, did not exist on
+ * the date or is a test Finanzamt in production mode
+ */
+export function getFinanzamt(
+  bufa: string,
+  mode: FinanzamtModeType = defaultFinanzamtMode,
+  asOf: string = formatDate(new Date())
+): FinanzamtInfo | undefined {
+  const finanzaemter: FinanzamtInfo[] = [];
+  if (Object.prototype.hasOwnProperty.call(BUFA_MAP, bufa)) {
+    finanzaemter.push(BUFA_MAP[bufa]);
+  }
+  finanzaemter.push(...getClosedFinanzaemter(bufa));
+  if (mode !== FinanzamtMode.PRODUCTION && Object.prototype.hasOwnProperty.call(TEST_BUFA_MAP, bufa)) {
+    finanzaemter.push(TEST_BUFA_MAP[bufa]);
+  }
+  return finanzaemter.find((info) => isValidOn(info, asOf));
+}
+
+/**
+ * Returns the closed Finanzämter that used a BUFA number, oldest first
+ */
+export function getClosedFinanzaemter(bufa: string): FinanzamtInfo[] {
+  return CLOSED_FINANZAEMTER.filter((info) => info.bufa === bufa).sort((a, b) =>
+    (a.validTo ?? '').localeCompare(b.validTo ?? '')
+  );
+}
+
+/**
+ * Checks whether a Finanzamt existed on a date ("YYYY-MM-DD")
+ */
+export function isValidOn(info: FinanzamtInfo, date: string): boolean {
+  return (!info.validFrom || info.validFrom <= date) && (!info.validTo || date <= info.validTo);
+}
+
+/**
+ * Converts a date to "YYYY-MM-DD" in local time
+ *
+ * @returns The ISO date, or null if the value is not a valid date or ISO date string
+ */
+export function toIsoDate(value: Date | string): string | null {
+  if (typeof value === 'string') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3])
+      ? value.trim()
+      : null;
+  }
+  if (!(value instanceof Date) || isNaN(value.getTime())) return null;
+  return formatDate(value);
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Checks whether an entry keeps a former name of a BUFA, marked "(alt)" in the
+ * source data, e.g. "2314 (alt)"; such entries are left out of listings
+ */
+export function isFormerNameEntry(info: FinanzamtInfo): boolean {
+  return info.bufa.endsWith(' (alt)');
+}
+
+/**
+ * Checks whether a BUFA number belongs to an ELSTER test Finanzamt
+ */
+export function isTestBufa(bufa: string): boolean {
+  return Object.prototype.hasOwnProperty.call(TEST_BUFA_MAP, bufa);
+}
@@ -0,0 +1,199 @@
+import {
+  BUFA_MAP,
+  FinanzamtInfo,
+  FinanzamtKindType,
+  FinanzamtMode,
+  FinanzamtModeType,
+  getDefaultFinanzamtMode,
+  getFinanzamt,
+  getFinanzamtKind,
+  isFormerNameEntry,
+} from './finanzamtsdaten';
+import { TEST_BUFA_MAP } from './finanzamtsdaten-test';
+import { AGS_LANDESSCHLUESSEL, ZUSTAENDIGKEITEN } from './finanzamtsdaten-zustaendigkeit';
+import { findLaenderFormat } from './laenderformate';
+
+/**
+ * Filters for listing and searching Finanzämter
+ */
+export type FinanzamtFilter = {
+  bundesland?: string; // Land name ("Bayern"), code ("BY") or ISO 3166-2 code ("DE-BY")
+  landesnummer?: string; // e.g. "91"
+  kind?: FinanzamtKindType; // e.g. "corporations"
+  mode?: FinanzamtModeType; // Test Finanzämter are only listed outside production mode
+};
+
+/**
+ * Options for searching Finanzämter
+ */
+export type FinanzamtSearchOptions = FinanzamtFilter & {
+  limit?: number; // Maximum number of results
+};
+
+/**
+ * Returns the Finanzamt with the given BUFA number
+ *
+ * @returns The Finanzamt, or undefined if the BUFA is unknown or a test Finanzamt in production mode
+ */
+export function getFinanzamtByBufa(
+  bufa: string,
+  mode: FinanzamtModeType = getDefaultFinanzamtMode()
+): FinanzamtInfo | undefined {
+  return getFinanzamt(bufa.trim(), mode);
+}
+
+/**
+ * Lists all Finanzämter matching the filter, sorted by BUFA number
+ *
+ * An unknown Bundesland matches no Finanzamt.
+ */
+export function listFinanzaemter(filter: FinanzamtFilter = {}): FinanzamtInfo[] {
+  const mode = filter.mode ?? getDefaultFinanzamtMode();
+  const finanzaemter =
+    mode === FinanzamtMode.PRODUCTION
+      ? Object.values(BUFA_MAP)
+      : [...Object.values(BUFA_MAP), ...Object.values(TEST_BUFA_MAP)];
+
+  let bundesland: string | undefined;
+  if (filter.bundesland) {
+    bundesland = findLaenderFormat(filter.bundesland)?.bundesland;
+    if (!bundesland) return [];
+  }
+
+  return finanzaemter
+    .filter((info) => !isFormerNameEntry(info))
+    .filter((info) => !bundesland || info.bundesland === bundesland)
+    .filter((info) => !filter.landesnummer || info.landesnummer === filter.landesnummer)
+    .filter((info) => !filter.kind || getFinanzamtKind(info) === filter.kind)
+    .sort((a, b) => a.bufa.localeCompare(b.bufa));
+}
+
+/**
+ * Finds the Finanzämter responsible for a Postleitzahl
+ *
+ * The bundled PLZ table is far from complete: it only holds the main PLZ of
+ * the Saarland towns with a Finanzamt. Prefer findFinanzaemterByAgs where the
+ * AGS is known.
+ *
+ * @returns The responsible Finanzämter, several where the PLZ spans more than
+ * one, or undefined if the bundled table does not cover the PLZ
+ */
+export function findFinanzaemterByPlz(plz: string): FinanzamtInfo[] | undefined {
+  const bufas = ZUSTAENDIGKEITEN.plz[plz.trim()];
+  return bufas ? resolveBufas(bufas) : undefined;
+}
+
+/**
+ * Finds the Finanzämter responsible for an Amtlicher Gemeindeschlüssel (AGS)
+ *
+ * Accepts an 8-digit Gemeinde AGS or a 5-digit Kreis key. A Gemeinde without
+ * an entry of its own falls back to its Kreis. Only the Länder listed by
+ * getZustaendigkeitsVersion are covered.
+ *
+ * @returns The responsible Finanzämter, an empty array for a malformed AGS or
+ * one that is no Kreis of a covered Land, or undefined if the bundled table
+ * does not cover the Land of the AGS
+ */
+export function findFinanzaemterByAgs(ags: string): FinanzamtInfo[] | undefined {
+  const key = ags.replace(/\s+/g, '');
+  if (!/^\d{5}(\d{3})?$/.test(key)) return [];
+
+  const land = AGS_LANDESSCHLUESSEL[key.substring(0, 2)];
+  if (!ZUSTAENDIGKEITEN.laender.includes(land)) return undefined;
+
+  return resolveBufas(
+    ZUSTAENDIGKEITEN.ags[key] ?? ZUSTAENDIGKEITEN.ags[key.substring(0, 5)] ?? []
+  );
+}
+
+/**
+ * Returns the version and date of the bundled Zuständigkeit table and the
+ * codes of the Länder it covers
+ */
+export function getZustaendigkeitsVersion(): { version: string; stand: string; laender: string[] } {
+  return {
+    version: ZUSTAENDIGKEITEN.version,
+    stand: ZUSTAENDIGKEITEN.stand,
+    laender: [...ZUSTAENDIGKEITEN.laender],
+  };
+}
+
+function resolveBufas(bufas: string[]): FinanzamtInfo[] {
+  return bufas
+    .map((bufa) => getFinanzamt(bufa, FinanzamtMode.PRODUCTION))
+    .filter((info): info is FinanzamtInfo => info !== undefined);
+}
+
+/**
+ * Searches Finanzämter by name or BUFA number, e.g. for an autocomplete
+ *
+ * Matching ignores case, umlauts ("Koeln", "Koln" and "Köln" are the same) and
+ * punctuation. Every word of the query must occur in the name; a query of
+ * digits matches the start of the BUFA number instead. Names starting with the
+ * query come first, then names with a word starting with it.
+ */
+export function searchFinanzaemter(
+  query: string,
+  options: FinanzamtSearchOptions = {}
+): FinanzamtInfo[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const finanzaemter = listFinanzaemter(options);
+  let matches: { info: FinanzamtInfo; rank: number }[];
+
+  if (/^\d+$/.test(trimmed)) {
+    matches = finanzaemter
+      .filter((info) => info.bufa.startsWith(trimmed))
+      .map((info) => ({ info, rank: 0 }));
+  } else {
+    const words = searchVariants(trimmed)[0].split(' ');
+    matches = [];
+    for (const info of finanzaemter) {
+      const rank = Math.min(...searchVariants(info.name).map((name) => matchRank(name, words)));
+      if (rank < Infinity) {
+        matches.push({ info, rank });
+      }
+    }
+  }
+
+  const sorted = matches
+    .sort((a, b) => a.rank - b.rank || a.info.name.localeCompare(b.info.name, 'de'))
+    .map((match) => match.info);
+
+  return options.limit !== undefined ? sorted.slice(0, options.limit) : sorted;
+}
+
+/**
+ * Ranks how well a normalized name matches the query words
+ *
+ * @returns 0 if the name starts with the query, 1 if every word starts a word
+ * of the name, 2 if every word occurs anywhere, Infinity otherwise
+ */
+function matchRank(name: string, words: string[]): number {
+  if (!words.every((word) => name.includes(word))) return Infinity;
+  if (name.startsWith(words.join(' '))) return 0;
+
+  const nameWords = name.split(' ');
+  return words.every((word) => nameWords.some((nameWord) => nameWord.startsWith(word))) ? 1 : 2;
+}
+
+/**
+ * Normalizes text for searching, once with umlauts written as "ae", "oe" and
+ * "ue" and once with the bare vowel
+ */
+function searchVariants(text: string): string[] {
+  const base = text.toLowerCase().replace(/ß/g, 'ss');
+  return [
+    simplify(base.replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue')),
+    simplify(base),
+  ];
+}
+
+function simplify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
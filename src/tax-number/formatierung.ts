@@ -0,0 +1,60 @@
+import { fillTemplate, getLaenderFormat, parseTemplate } from './laenderformate';
+import { SteuernummerValidationResult } from './validation-tax-number';
+
+/**
+ * A Steuernummer rendered for display
+ */
+export type FormattedSteuernummer = {
+  laenderFormat: string; // e.g. "181/815/08155", as printed on the Bescheid
+  elsterFormat: string; // e.g. "9181081508155"
+  displayFormat: string; // e.g. "9181 0815 0815 5"
+};
+
+/**
+ * Formats a 13-digit ELSTER Steuernummer for confirmation screens and documents
+ *
+ * Accepts a 13-digit number (formatting characters are ignored) or the result
+ * of validateSteuernummer. The Prüfziffer is not checked again; pass numbers
+ * that have been validated.
+ *
+ * @param input - 13-digit ELSTER number or a validateSteuernummer result
+ * @returns The number in Länder, ELSTER and spaced display format, or null if
+ * the input is not a 13-digit number of a known Land
+ */
+export function formatSteuernummer(
+  input: string | SteuernummerValidationResult
+): FormattedSteuernummer | null {
+  let elster13: string;
+  if (typeof input === 'string') {
+    elster13 = input.replace(/\D+/g, '');
+  } else if (input && input.valid && input.normalized) {
+    elster13 = input.normalized;
+  } else {
+    return null;
+  }
+
+  if (!/^\d{13}$/.test(elster13)) {
+    return null;
+  }
+
+  const format = getLaenderFormat(elster13.substring(0, 2));
+  if (!format) {
+    return null;
+  }
+
+  const teile = parseTemplate(elster13, format.elsterFormat);
+  if (!teile) {
+    return null;
+  }
+
+  return {
+    laenderFormat: fillTemplate(format.laenderFormat, teile),
+    elsterFormat: elster13,
+    displayFormat: [
+      elster13.substring(0, 4),
+      elster13.substring(4, 8),
+      elster13.substring(8, 12),
+      elster13.substring(12),
+    ].join(' '),
+  };
+}
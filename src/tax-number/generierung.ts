@@ -0,0 +1,96 @@
+import { createRandom, randomInt } from '../random';
+import { FinanzamtInfo, FinanzamtMode, getFinanzamt, isTestBufa } from './finanzamtsdaten';
+import { listFinanzaemter } from './finanzamtsverzeichnis';
+import { formatSteuernummer } from './formatierung';
+import { findLaenderFormat } from './laenderformate';
+import { calculatePruefziffer } from './prufziffernverfahren';
+
+/**
+ * Options for generating a Steuernummer; without bufa, bundesland or test,
+ * any production Finanzamt may be picked
+ */
+export type SteuernummerGenerationOptions = {
+  bufa?: string; // Finanzamt to generate the number for, production or test
+  bundesland?: string; // Land name ("Bayern"), code ("BY") or ISO 3166-2 code ("DE-BY")
+  test?: boolean; // Pick an ELSTER test Finanzamt (of the Land, if given)
+  laenderFormat?: boolean; // Also render the number in the Länder format
+  seed?: number; // Makes the result reproducible
+};
+
+/**
+ * A generated Steuernummer and the Finanzamt it belongs to
+ */
+export type GeneratedSteuernummer = {
+  steuernummer: string; // 13-digit ELSTER format, e.g. "9181081508155"
+  laenderFormat?: string; // e.g. "181/815/08155", only set if requested
+  bufa: string;
+  bundesland: string;
+  finanzamt: string; // Name of the Finanzamt
+  isTest: boolean;
+};
+
+/**
+ * Generates a valid Steuernummer for test data
+ *
+ * Bezirksnummer and Unterscheidungsnummer are random; the Prüfziffer is
+ * calculated with the Prüfziffernverfahren of the Finanzamt, as
+ * validatePruefziffer checks it. The number is not necessarily unissued, so
+ * submissions to production Finanzämter should only use test Finanzämter.
+ *
+ * @throws If the BUFA or Bundesland is unknown or no Finanzamt matches the options
+ */
+export function generateSteuernummer(
+  options: SteuernummerGenerationOptions = {}
+): GeneratedSteuernummer {
+  const random = createRandom(options.seed);
+  const info = selectFinanzamt(options, random);
+
+  for (;;) {
+    const body = `${info.bufa}0${randomDigits(random, 7)}`;
+    const pruefziffer = calculatePruefziffer(`${body}0`, info);
+    if (pruefziffer === null) continue;
+
+    const steuernummer = `${body}${pruefziffer}`;
+    return {
+      steuernummer,
+      ...(options.laenderFormat && {
+        laenderFormat: formatSteuernummer(steuernummer)?.laenderFormat,
+      }),
+      bufa: info.bufa,
+      bundesland: info.bundesland,
+      finanzamt: info.name,
+      isTest: Boolean(info.isTest),
+    };
+  }
+}
+
+function selectFinanzamt(
+  options: SteuernummerGenerationOptions,
+  random: () => number
+): FinanzamtInfo {
+  if (options.bufa) {
+    const info = getFinanzamt(options.bufa.trim(), FinanzamtMode.TEST);
+    if (!info) {
+      throw new Error(`Unknown BUFA "${options.bufa}"`);
+    }
+    return info;
+  }
+
+  if (options.bundesland && !findLaenderFormat(options.bundesland)) {
+    throw new Error(`Unknown Bundesland "${options.bundesland}"`);
+  }
+
+  const finanzaemter = listFinanzaemter({
+    bundesland: options.bundesland,
+    mode: FinanzamtMode.TEST,
+  }).filter((info) => Boolean(options.test) === isTestBufa(info.bufa));
+  if (finanzaemter.length === 0) {
+    const where = options.bundesland ? ` in "${options.bundesland}"` : '';
+    throw new Error(`No ${options.test ? 'test ' : ''}Finanzamt${where}`);
+  }
+  return finanzaemter[randomInt(random, finanzaemter.length)];
+}
+
+function randomDigits(random: () => number, length: number): string {
+  return Array.from({ length }, () => randomInt(random, 10)).join('');
+}
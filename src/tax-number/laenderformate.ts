@@ -0,0 +1,146 @@
+import * as laender from './laender.json';
+
+/**
+ * Steuernummer formats of the Länder (Standardschema der Länder) and their
+ * mapping to the 13-digit ELSTER format (Vereinheitlichtes Bundesschema zur
+ * elektronischen Übermittlung).
+ *
+ * Template letters:
+ * - F: Finanzamt digits (the BUFA without the Land prefix)
+ * - B: Bezirksnummer
+ * - U: Unterscheidungsnummer
+ * - P: Prüfziffer
+ * Digits in a template are fixed, every other character is a separator.
+ */
+export type LaenderFormat = {
+  bundesland: string;
+  kuerzel: string; // ISO 3166-2 subdivision code without the "DE-" prefix
+  landesnummern: string[];
+  laenderFormat: string; // e.g. "FFF/BBB/UUUUP"
+  elsterFormat: string; // e.g. "9FFF0BBBUUUUP"
+};
+
+/**
+ * Formats of all Länder, kept in laender.json so the maintenance scripts can
+ * read them too
+ */
+export const LAENDER_FORMATE: LaenderFormat[] = laender.laenderFormate;
+
+/**
+ * Parts of a Steuernummer, keyed by template letter
+ */
+export type SteuernummerTeile = {
+  F: string;
+  B: string;
+  U: string;
+  P: string;
+};
+
+/**
+ * Returns the format of the Land with the given Landesnummer
+ */
+export function getLaenderFormat(landesnummer: string): LaenderFormat | undefined {
+  return LAENDER_FORMATE.find((format) => format.landesnummern.includes(landesnummer));
+}
+
+/**
+ * Finds the format of a Land by its name ("Bayern"), its code ("BY") or its
+ * ISO 3166-2 code ("DE-BY"), ignoring case
+ */
+export function findLaenderFormat(bundesland: string): LaenderFormat | undefined {
+  const key = bundesland.trim().toUpperCase().replace(/^DE-/, '');
+  return LAENDER_FORMATE.find(
+    (format) => format.kuerzel === key || format.bundesland.toUpperCase() === key
+  );
+}
+
+/**
+ * Returns the formats whose Länder format has the given number of digits
+ */
+export function getLaenderFormateByLength(length: number): LaenderFormat[] {
+  return LAENDER_FORMATE.filter((format) => templateDigits(format.laenderFormat).length === length);
+}
+
+/**
+ * Splits digits into their parts according to a template
+ *
+ * @returns The parts, or null if the digits don't fit the template
+ */
+export function parseTemplate(digits: string, template: string): SteuernummerTeile | null {
+  const pattern = templateDigits(template);
+  if (digits.length !== pattern.length) return null;
+
+  const teile: SteuernummerTeile = { F: '', B: '', U: '', P: '' };
+  for (let i = 0; i < pattern.length; i++) {
+    const letter = pattern[i];
+    if (isTemplateLetter(letter)) {
+      teile[letter] += digits[i];
+    } else if (letter !== digits[i]) {
+      return null;
+    }
+  }
+  return teile;
+}
+
+/**
+ * Renders parts into a template, keeping the template's fixed digits and
+ * separators
+ */
+export function fillTemplate(template: string, teile: SteuernummerTeile): string {
+  const offsets = { F: 0, B: 0, U: 0, P: 0 };
+  let result = '';
+  for (const letter of template) {
+    if (isTemplateLetter(letter)) {
+      result += teile[letter][offsets[letter]++];
+    } else {
+      result += letter;
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a number in the Länder format of the given Land to the 13-digit
+ * ELSTER format
+ *
+ * @returns The 13-digit ELSTER number, or null if the digits don't fit the format
+ */
+export function laenderToElster(digits: string, format: LaenderFormat): string | null {
+  const teile = parseTemplate(digits, format.laenderFormat);
+  if (!teile) return null;
+
+  const elster13 = fillTemplate(format.elsterFormat, teile);
+  return format.landesnummern.includes(elster13.substring(0, 2)) ? elster13 : null;
+}
+
+/**
+ * Checks whether the separators of a written tax number sit where the
+ * template puts them; '/', '-' and spaces are interchangeable
+ */
+export function matchesLayout(input: string, template: string): boolean {
+  return separatorPositions(input) === separatorPositions(template);
+}
+
+/**
+ * Number of digits before each group of separators, e.g. "3,6" for "FFF/BBB/UUUUP"
+ */
+function separatorPositions(value: string): string {
+  const positions: number[] = [];
+  let digits = 0;
+  for (const char of value.trim()) {
+    if (/[0-9FBUP]/.test(char)) {
+      digits++;
+    } else if (positions[positions.length - 1] !== digits) {
+      positions.push(digits);
+    }
+  }
+  return positions.join(',');
+}
+
+function templateDigits(template: string): string {
+  return template.replace(/[^0-9FBUP]/g, '');
+}
+
+function isTemplateLetter(letter: string): letter is keyof SteuernummerTeile {
+  return letter === 'F' || letter === 'B' || letter === 'U' || letter === 'P';
+}
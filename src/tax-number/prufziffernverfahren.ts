@@ -1,49 +1,189 @@
 import { FinanzamtInfo } from './finanzamtsdaten';
+import * as laender from './laender.json';
+
+/**
+ * Check digit methods (Prüfziffernverfahren) declared on FinanzamtInfo
+ */
+export type Pruefziffernverfahren = NonNullable<FinanzamtInfo['verfahren']>;
 
 const BERLIN_A_MULTIPLIERS = [0, 0, 0, 0, 0, 7, 6, 5, 8, 4, 3, 2];
 
 const BERLIN_B_MULTIPLIERS = [0, 0, 2, 9, 0, 8, 7, 6, 5, 4, 3, 2];
 
-function pruefzifferBayern(elster13: string): number {
-  let sum = 0;
-  const base = [1, 2, 1, 2, 1, 2, 1, 2, 1, 2, 1, 2];
+// Länder of the bayerischer Programmierverbund (BY, BB, MV, SL, SN, ST, TH)
+const BAYERN_11ER_MULTIPLIERS = [0, 5, 4, 3, 0, 2, 7, 6, 5, 4, 3, 2];
+
+const BREMEN_HAMBURG_MULTIPLIERS = [0, 0, 4, 3, 0, 2, 7, 6, 5, 4, 3, 2];
+
+const NRW_MULTIPLIERS = [0, 3, 2, 1, 0, 7, 6, 5, 4, 3, 2, 1];
+
+const MOD11_RP_MULTIPLIERS = [0, 0, 1, 2, 0, 1, 2, 1, 2, 1, 2, 1];
+
+const ZWEIER_SUMMANDS = [0, 0, 9, 8, 0, 7, 6, 5, 4, 3, 2, 1];
+
+const ZWEIER_MULTIPLIERS = [0, 0, 512, 256, 0, 128, 64, 32, 16, 8, 4, 2];
+
+/**
+ * Bezirksnummer ranges checked with Berlin method B; all other Berlin
+ * Bezirksnummern use method A (ELSTER Prüfziffer spec, section 7.2)
+ */
+const BERLIN_B_BEZIRKSNUMMERN: Array<[number, number]> = [[201, 693]];
+
+/**
+ * Multipliers of the 11er-Verfahren per Landesnummer (Berlin picks its
+ * multipliers per number, see selectBerlinVerfahren)
+ */
+const ELF_MULTIPLIERS: Record<string, number[]> = {
+  '10': BAYERN_11ER_MULTIPLIERS, // Saarland
+  '22': BREMEN_HAMBURG_MULTIPLIERS, // Hamburg
+  '23': BERLIN_B_MULTIPLIERS, // Niedersachsen
+  '24': BREMEN_HAMBURG_MULTIPLIERS, // Bremen
+  '30': BAYERN_11ER_MULTIPLIERS, // Brandenburg
+  '31': BAYERN_11ER_MULTIPLIERS, // Sachsen-Anhalt
+  '32': BAYERN_11ER_MULTIPLIERS, // Sachsen
+  '40': BAYERN_11ER_MULTIPLIERS, // Mecklenburg-Vorpommern
+  '41': BAYERN_11ER_MULTIPLIERS, // Thüringen
+  '91': BAYERN_11ER_MULTIPLIERS, // Bayern
+  '92': BAYERN_11ER_MULTIPLIERS, // Bayern
+};
+
+/**
+ * Standard check digit method of each Land, keyed by Landesnummer, kept in
+ * laender.json so the maintenance scripts can read it too
+ */
+export const LANDES_VERFAHREN = laender.landesVerfahren as Record<string, Pruefziffernverfahren>;
 
+/**
+ * 11er-Verfahren: the weighted sum plus the Prüfziffer must be divisible by 11.
+ * A remainder that would require the Prüfziffer 10 is never issued.
+ */
+function pruefzifferElf(body: string, multipliers: number[]): number | null {
+  const remainder = weightedSum(body, multipliers) % 11;
+  const check = remainder === 0 ? 0 : 11 - remainder;
+  return check === 10 ? null : check;
+}
+
+/**
+ * 11er-Verfahren as used in Nordrhein-Westfalen: the remainder of the
+ * weighted sum is the Prüfziffer itself.
+ */
+function pruefzifferNrw(body: string): number | null {
+  const check = weightedSum(body, NRW_MULTIPLIERS) % 11;
+  return check === 10 ? null : check;
+}
+
+/**
+ * Modifiziertes 11er-Verfahren (Rheinland-Pfalz): despite the name in the
+ * ELSTER spec this is a modulo 10 method. Every other digit is doubled,
+ * two-digit products are reduced to their digit sum, and the check digit
+ * tops the sum up to the next multiple of 10.
+ */
+function pruefzifferMod11Rp(body: string): number {
+  let sum = 0;
   for (let i = 0; i < 12; i++) {
-    const p = Number(elster13[i]) * base[i];
+    const p = Number(body[i]) * MOD11_RP_MULTIPLIERS[i];
     sum += p > 9 ? (p % 10) + 1 : p;
   }
-  const check = (10 - (sum % 10)) % 10;
-  return check;
+  return (10 - (sum % 10)) % 10;
 }
 
-export function validatePruefziffer(elster13: string, info: FinanzamtInfo): boolean {
-  const body = elster13.substring(0, 12);
-  const checkDigit = Number(elster13[12]);
+/**
+ * 2er-Verfahren (Baden-Württemberg, Hessen, Schleswig-Holstein): each digit is
+ * shifted by its summand, multiplied by a power of two and reduced to its
+ * digital root before the modulo 10 complement is taken.
+ */
+function pruefzifferZweier(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    if (ZWEIER_MULTIPLIERS[i] === 0) continue;
 
-  switch (info.verfahren) {
-    case 'BERLIN_A': {
-      return computeWeightedCheckDigit(body, BERLIN_A_MULTIPLIERS) === checkDigit;
-    }
-    case 'BERLIN_B': {
-      return computeWeightedCheckDigit(body, BERLIN_B_MULTIPLIERS) === checkDigit;
-    }
-    case 'BAYERN_11ER': {
-      return pruefzifferBayern(elster13) === checkDigit;
+    const shifted = (Number(body[i]) + ZWEIER_SUMMANDS[i]) % 10;
+    if (shifted === 0) continue;
+
+    sum += (shifted * ZWEIER_MULTIPLIERS[i]) % 9 || 9;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Berlin checks a Steuernummer with method A or B depending on the
+ * Bezirksnummer (digits 6-8 of the 13-digit ELSTER number)
+ */
+function selectBerlinVerfahren(elster13: string): 'BERLIN_A' | 'BERLIN_B' {
+  const bezirksnummer = Number(elster13.substring(5, 8));
+  const isMethodB = BERLIN_B_BEZIRKSNUMMERN.some(
+    ([from, to]) => bezirksnummer >= from && bezirksnummer <= to
+  );
+  return isMethodB ? 'BERLIN_B' : 'BERLIN_A';
+}
+
+/**
+ * Resolves the method to run for a Steuernummer. `STANDARD` and a missing
+ * `verfahren` stand for the standard method of the office's Land; the Berlin
+ * 11er-Verfahren is resolved to method A or B from the number itself.
+ */
+function resolveVerfahren(elster13: string, info: FinanzamtInfo): Pruefziffernverfahren {
+  let verfahren = info.verfahren;
+  if (!verfahren || verfahren === 'STANDARD') {
+    verfahren = LANDES_VERFAHREN[info.landesnummer];
+    if (!verfahren) {
+      throw new Error(`No standard Prüfziffernverfahren for Landesnummer "${info.landesnummer}"`);
     }
-    // NRW special:
-    case 'NRW': {
-      return computeWeightedCheckDigit(body, [0, 3, 2, 1, 0, 7, 6, 5, 4, 3, 2, 1]) === checkDigit;
+  }
+
+  if (verfahren === 'ELF' && info.landesnummer === '11') {
+    return selectBerlinVerfahren(elster13);
+  }
+  return verfahren;
+}
+
+/**
+ * Calculates the Prüfziffer for the first 12 digits of a 13-digit ELSTER
+ * Steuernummer, using the method of the given Finanzamt.
+ *
+ * @returns The Prüfziffer, or null if no Prüfziffer can make the number valid
+ * @throws Error if the Finanzamt declares an unknown Prüfziffernverfahren
+ */
+export function calculatePruefziffer(elster13: string, info: FinanzamtInfo): number | null {
+  const body = elster13.substring(0, 12);
+  const verfahren = resolveVerfahren(elster13, info);
+
+  switch (verfahren) {
+    case 'BERLIN_A':
+      return pruefzifferElf(body, BERLIN_A_MULTIPLIERS);
+    case 'BERLIN_B':
+      return pruefzifferElf(body, BERLIN_B_MULTIPLIERS);
+    case 'BAYERN_11ER':
+      return pruefzifferElf(body, BAYERN_11ER_MULTIPLIERS);
+    case 'ELF': {
+      const multipliers = ELF_MULTIPLIERS[info.landesnummer];
+      if (!multipliers) {
+        throw new Error(`11er-Verfahren is not defined for Landesnummer "${info.landesnummer}"`);
+      }
+      return pruefzifferElf(body, multipliers);
     }
+    // 'NRW' is the former name of the NRW 11er-Verfahren
+    case 'NRW':
+    case 'NRW_11':
+      return pruefzifferNrw(body);
+    case 'MOD11_RP':
+      return pruefzifferMod11Rp(body);
+    case 'ZWEIER':
+      return pruefzifferZweier(body);
     default:
-      // fallback = Bayern 11er (used by most Länder)
-      return pruefzifferBayern(elster13) === checkDigit;
+      throw new Error(`Unknown Prüfziffernverfahren "${verfahren}" for BUFA ${info.bufa}`);
   }
 }
 
-function computeWeightedCheckDigit(body: string, multipliers: number[]): number {
+export function validatePruefziffer(elster13: string, info: FinanzamtInfo): boolean {
+  const checkDigit = Number(elster13[12]);
+  return calculatePruefziffer(elster13, info) === checkDigit;
+}
+
+function weightedSum(body: string, multipliers: number[]): number {
   let sum = 0;
   for (let i = 0; i < 12; i++) {
     sum += Number(body[i]) * multipliers[i];
   }
-  return (sum % 11) % 10;
+  return sum;
 }
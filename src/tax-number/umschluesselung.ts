@@ -0,0 +1,208 @@
+import { ValidationErrorCode, ValidationErrorCodeType } from '../validation-error-codes';
+import {
+  FinanzamtModeType,
+  getDefaultFinanzamtMode,
+  getFinanzamt,
+  toIsoDate,
+} from './finanzamtsdaten';
+import { CLOSED_FINANZAEMTER } from './finanzamtsdaten-historie';
+import { UMSCHLUESSELUNGEN, Umschluesselung } from './finanzamtsdaten-umschluesselung';
+import { SteuernummerTeile, getLaenderFormat, parseTemplate } from './laenderformate';
+import { getSteuernummerInputError, normalizeSteuernummer } from './normalization';
+import { calculatePruefziffer, validatePruefziffer } from './prufziffernverfahren';
+import { validateSteuernummer } from './validation-tax-number';
+
+/**
+ * Options for converting a Steuernummer to its current equivalent
+ */
+export type SteuernummerConversionOptions = {
+  mode?: FinanzamtModeType; // Defaults to getDefaultFinanzamtMode()
+  asOf?: Date | string; // Date ("YYYY-MM-DD") to convert to, defaults to today
+};
+
+/**
+ * Result of converting a Steuernummer to its current equivalent
+ */
+export type SteuernummerConversionResult = {
+  valid: boolean;
+  original?: string; // The input as 13-digit ELSTER number
+  converted?: string; // The current 13-digit ELSTER number
+  bufa?: string; // BUFA of the converted number
+  rekeyed: boolean; // Whether converted differs from original
+  steps?: Umschluesselung[]; // The renumberings applied, oldest first
+  reason?: string;
+  errorCode?: ValidationErrorCodeType;
+};
+
+// Longest chain of renumberings followed before the tables are considered cyclic
+const MAX_STEPS = 10;
+
+/**
+ * Converts a Steuernummer of a reorganised Finanzamt to the number it has today
+ *
+ * Follows the renumbering tables and the successors of closed Finanzämter:
+ * each step replaces the BUFA, maps the Bezirksnummer if the table says so,
+ * keeps the Unterscheidungsnummer and computes the Prüfziffer of the new
+ * Finanzamt. Numbers of Finanzämter that were not reorganised are returned
+ * unchanged with rekeyed: false.
+ *
+ * @param input - 12 or 13-digit ELSTER Steuernummer with or without formatting
+ * @param options - Mode and date to convert to
+ */
+export function convertSteuernummer(
+  input: string,
+  options: SteuernummerConversionOptions = {}
+): SteuernummerConversionResult {
+  const mode = options.mode ?? getDefaultFinanzamtMode();
+  const asOf = toIsoDate(options.asOf ?? new Date());
+  if (!asOf) {
+    return failure('Invalid as-of date', ValidationErrorCode.INVALID_FORMAT);
+  }
+
+  const digits = normalizeSteuernummer(input);
+  if (digits.length !== 12 && digits.length !== 13) {
+    return failure(
+      'Only 12 and 13-digit ELSTER numbers can be converted',
+      digits ? ValidationErrorCode.INVALID_LENGTH : getSteuernummerInputError(input)
+    );
+  }
+
+  const original = digits.length === 12 ? `${digits.substring(0, 4)}0${digits.substring(4)}` : digits;
+  const steps: Umschluesselung[] = [];
+  let current = original;
+
+  for (
+    let rule = findRule(current, mode, asOf, steps);
+    rule;
+    rule = findRule(current, mode, asOf, steps)
+  ) {
+    if (steps.length === MAX_STEPS) {
+      throw new Error(`Umschlüsselung of BUFA "${original.substring(0, 4)}" does not terminate`);
+    }
+
+    // The number must have been valid at the office it is converted from
+    const oldInfo = getFinanzamt(rule.fromBufa, mode, previousDay(rule.validFrom));
+    if (!oldInfo) {
+      return failure('Unknown BUFA or Finanzamt', ValidationErrorCode.UNKNOWN_BUFA, original);
+    }
+    if (!validatePruefziffer(current, oldInfo)) {
+      return failure('Invalid Prüfziffer', ValidationErrorCode.INVALID_CHECKSUM, original);
+    }
+
+    const converted = rekey(current, rule, mode);
+    if (!converted) {
+      return failure(
+        `Cannot convert to BUFA ${rule.toBufa}`,
+        ValidationErrorCode.INVALID_FORMAT,
+        original
+      );
+    }
+
+    steps.push(rule);
+    current = converted;
+  }
+
+  const result = validateSteuernummer(current, { mode, asOf });
+  if (!result.valid) {
+    return { ...failure(result.reason ?? '', result.errorCode, original), ...stepsOf(steps) };
+  }
+
+  return {
+    valid: true,
+    original,
+    converted: current,
+    bufa: result.bufa,
+    rekeyed: steps.length > 0,
+    ...stepsOf(steps),
+  };
+}
+
+/**
+ * Finds the renumbering that applies to a number on a date: an entry of the
+ * renumbering tables that has not been applied yet, or else the successor of
+ * a closed Finanzamt
+ */
+function findRule(
+  elster13: string,
+  mode: FinanzamtModeType,
+  asOf: string,
+  applied: Umschluesselung[]
+): Umschluesselung | undefined {
+  const bufa = elster13.substring(0, 4);
+  const teile = splitElster(elster13);
+  if (!teile) return undefined;
+
+  const rule = UMSCHLUESSELUNGEN.find(
+    (candidate) =>
+      candidate.fromBufa === bufa &&
+      candidate.validFrom <= asOf &&
+      !applied.includes(candidate) &&
+      (!candidate.bezirke || candidate.bezirke[teile.B] !== undefined)
+  );
+  if (rule) return rule;
+
+  // A BUFA that has been given to a new office is not renumbered
+  if (getFinanzamt(bufa, mode, asOf)) return undefined;
+
+  const closed = CLOSED_FINANZAEMTER.find(
+    (info) => info.bufa === bufa && info.successor && info.validTo && info.validTo < asOf
+  );
+  if (!closed?.successor || !closed.validTo) return undefined;
+
+  return { fromBufa: bufa, toBufa: closed.successor, validFrom: nextDay(closed.validTo) };
+}
+
+/**
+ * Applies a renumbering to a number
+ *
+ * @returns The renumbered 13-digit number, or null if the new Finanzamt is
+ * unknown, its format has a different Bezirksnummer length or no Prüfziffer
+ * exists for the new number
+ */
+function rekey(elster13: string, rule: Umschluesselung, mode: FinanzamtModeType): string | null {
+  const teile = splitElster(elster13);
+  const format = getLaenderFormat(rule.toBufa.substring(0, 2));
+  const info = getFinanzamt(rule.toBufa, mode, rule.validFrom);
+  if (!teile || !format || !info) return null;
+
+  const bezirk = rule.bezirke ? rule.bezirke[teile.B] : teile.B;
+  const body = `${rule.toBufa}0${bezirk}${teile.U}`;
+  if (body.length !== 12 || parseTemplate(`${body}0`, format.elsterFormat)?.B.length !== bezirk.length) {
+    return null;
+  }
+
+  const pruefziffer = calculatePruefziffer(`${body}0`, info);
+  return pruefziffer === null ? null : `${body}${pruefziffer}`;
+}
+
+function splitElster(elster13: string): SteuernummerTeile | null {
+  const format = getLaenderFormat(elster13.substring(0, 2));
+  return format ? parseTemplate(elster13, format.elsterFormat) : null;
+}
+
+function failure(
+  reason: string,
+  errorCode?: ValidationErrorCodeType,
+  original?: string
+): SteuernummerConversionResult {
+  return { valid: false, ...(original && { original }), rekeyed: false, reason, errorCode };
+}
+
+function stepsOf(steps: Umschluesselung[]): Pick<SteuernummerConversionResult, 'steps'> {
+  return steps.length > 0 ? { steps } : {};
+}
+
+function nextDay(isoDate: string): string {
+  return shiftDay(isoDate, 1);
+}
+
+function previousDay(isoDate: string): string {
+  return shiftDay(isoDate, -1);
+}
+
+function shiftDay(isoDate: string, days: number): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const shifted = toIsoDate(new Date(year, month - 1, day + days));
+  if (!shifted) throw new Error(`Invalid date "${isoDate}"`);
+  return shifted;
+}
@@ -1,159 +1,453 @@
-import { BUFA_MAP } from './finanzamtsdaten';
-import { normalizeSteuernummer, normalizeTo13Digits } from './normalization';
+import {
+  FinanzamtInfo,
+  FinanzamtKind,
+  FinanzamtKindType,
+  FinanzamtMode,
+  FinanzamtModeType,
+  getDefaultFinanzamtMode,
+  getClosedFinanzaemter,
+  getFinanzamt,
+  getFinanzamtKind,
+  isTestBufa,
+  toIsoDate,
+} from './finanzamtsdaten';
+import {
+  LaenderFormat,
+  findLaenderFormat,
+  getLaenderFormat,
+  getLaenderFormateByLength,
+  laenderToElster,
+  matchesLayout,
+} from './laenderformate';
+import {
+  getSteuernummerInputError,
+  normalizeSteuernummer,
+  normalizeTo13Digits,
+} from './normalization';
 import { validatePruefziffer } from './prufziffernverfahren';
+import { ValidationErrorCode, ValidationErrorCodeType } from '../validation-error-codes';
 
 /**
- * Finds all possible BUFA codes that match the Finanzamt number from the input
+ * A Finanzamt a Länder format tax number is valid for
  */
-function findPossibleBufas(finanzamtNumber: string): string[] {
-  const bufas: string[] = [];
-
-  for (const [bufa, info] of Object.entries(BUFA_MAP)) {
-    if (info.finanzamtsnummer === finanzamtNumber) {
-      bufas.push(bufa);
-    }
-  }
-
-  return bufas;
-}
+export type SteuernummerCandidate = {
+  bufa: string;
+  normalized: string;
+  name: string;
+  bundesland: string;
+  isTest: boolean;
+  kind: FinanzamtKindType;
+};
 
 /**
- * Validates 10-digit old format tax numbers by converting to 13-digit ELSTER format
- * Format: FFBBB UUUUP (Finanzamt 2 digits + Bezirk 3 digits + Unterscheidung 4 digits + Prüfziffer 1 digit)
+ * Result of validating a German tax number (Steuernummer)
  */
-function validate10DigitFormat(normalized: string): {
+export type SteuernummerValidationResult = {
   valid: boolean;
   normalized?: string;
   bufa?: string;
   bundesland?: string;
   reason?: string;
-} {
-  // Check if it's all zeros (invalid)
-  if (/^0+$/.test(normalized)) {
-    return { valid: false, reason: 'Tax number cannot be all zeros' };
+  errorCode?: ValidationErrorCodeType;
+  isTest?: boolean; // Issued by an ELSTER test Finanzamt
+  kind?: FinanzamtKindType; // What the issuing Finanzamt is responsible for
+  successor?: string; // BUFA that took over the Steuernummern of a closed Finanzamt
+  warnings?: string[];
+  // Only set for 10 and 11-digit Länder formats
+  ambiguous?: boolean;
+  candidates?: SteuernummerCandidate[];
+};
+
+/**
+ * Options for validating a German tax number (Steuernummer)
+ *
+ * Known context about the issuing Finanzamt, e.g. from earlier form fields.
+ * Candidates outside the given Land or office are not considered, and numbers
+ * that don't fit it are rejected.
+ */
+export type SteuernummerValidationOptions = {
+  bundesland?: string; // Land name ("Bayern"), code ("BY") or ISO 3166-2 code ("DE-BY")
+  landesnummer?: string; // e.g. "91"
+  bufa?: string; // e.g. "9181"
+  mode?: FinanzamtModeType; // Defaults to getDefaultFinanzamtMode()
+  asOf?: Date | string; // Date ("YYYY-MM-DD") the Finanzamt must have existed on, defaults to today
+  // Kinds of Finanzamt the number is expected from, e.g. ['general', 'international']
+  // for private individuals; numbers of other kinds are accepted with a warning
+  expectedKinds?: FinanzamtKindType[];
+};
+
+const WRONG_FINANZAMT_REASON = 'Tax number does not belong to the selected Bundesland or Finanzamt';
+const TEST_FINANZAMT_WARNING = 'Tax number belongs to an ELSTER test Finanzamt';
+
+const KIND_DESCRIPTIONS: Record<FinanzamtKindType, string> = {
+  general: 'general taxation',
+  corporations: 'corporations',
+  investigation: 'tax investigation and criminal tax matters',
+  realEstateTransfer: 'real estate transfer tax',
+  wageTax: 'wage tax',
+  international: 'taxpayers abroad',
+  propertyValuation: 'property valuation',
+  inheritanceTax: 'inheritance and gift tax',
+};
+
+/**
+ * Warns about accepted test Finanzämter in optional mode and about
+ * Finanzämter of kinds the options don't expect
+ */
+function finanzamtWarnings(
+  finanzaemter: Array<Pick<FinanzamtInfo, 'name' | 'isTest' | 'kind'>>,
+  options: SteuernummerValidationOptions
+): Pick<SteuernummerValidationResult, 'warnings'> {
+  const warnings: string[] = [];
+  if (resolveMode(options) === FinanzamtMode.OPTIONAL && finanzaemter.some((info) => info.isTest)) {
+    warnings.push(TEST_FINANZAMT_WARNING);
   }
 
-  // Extract Finanzamt number (first 2 digits)
-  const finanzamtNumber = normalized.substring(0, 2);
+  const expectedKinds = options.expectedKinds;
+  if (expectedKinds) {
+    const kinds = new Set(finanzaemter.map(getFinanzamtKind));
+    kinds.forEach((kind) => {
+      if (!expectedKinds.includes(kind)) {
+        warnings.push(`Tax number belongs to a Finanzamt for ${KIND_DESCRIPTIONS[kind]}`);
+      }
+    });
+  }
 
-  // Find all possible BUFAs with this Finanzamt number
-  const possibleBufas = findPossibleBufas(finanzamtNumber);
+  return warnings.length > 0 ? { warnings } : {};
+}
 
-  if (possibleBufas.length === 0) {
-    // No matching Finanzamt found - reject it
+/**
+ * Rejects a 12 or 13-digit number whose BUFA is unknown, telling test
+ * Finanzämter in production mode apart from unknown ones
+ */
+function unknownBufaResult(bufa: string, reason: string): SteuernummerValidationResult {
+  const closed = getClosedFinanzaemter(bufa).pop();
+  if (closed) {
+    return {
+      valid: false,
+      reason: 'Finanzamt did not exist on the as-of date',
+      errorCode: ValidationErrorCode.CLOSED_FINANZAMT,
+      bufa,
+      bundesland: closed.bundesland,
+      ...(closed.successor && { successor: closed.successor }),
+    };
+  }
+  if (isTestBufa(bufa)) {
+    return {
+      valid: false,
+      reason: 'ELSTER test Finanzamt not accepted in production mode',
+      errorCode: ValidationErrorCode.TEST_FINANZAMT,
+      bufa,
+      isTest: true,
+    };
+  }
+  return { valid: false, reason, errorCode: ValidationErrorCode.UNKNOWN_BUFA };
+}
+
+/**
+ * Checks whether a Finanzamt satisfies the Bundesland, Landesnummer and BUFA options
+ */
+function matchesOptions(info: FinanzamtInfo, options: SteuernummerValidationOptions): boolean {
+  if (options.bufa && options.bufa !== info.bufa) return false;
+  if (options.landesnummer && options.landesnummer !== info.landesnummer) return false;
+  if (options.bundesland && findLaenderFormat(options.bundesland)?.bundesland !== info.bundesland) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Checks the options themselves before any number is matched against them
+ *
+ * @returns A failed result if an option names an unknown Land, Landesnummer or Finanzamt
+ */
+function validateOptions(
+  options: SteuernummerValidationOptions
+): SteuernummerValidationResult | undefined {
+  if (options.bundesland && !findLaenderFormat(options.bundesland)) {
+    return {
+      valid: false,
+      reason: 'Unknown Bundesland',
+      errorCode: ValidationErrorCode.UNKNOWN_BUNDESLAND,
+    };
+  }
+  if (options.landesnummer && !getLaenderFormat(options.landesnummer)) {
+    return {
+      valid: false,
+      reason: 'Unknown Landesnummer',
+      errorCode: ValidationErrorCode.UNKNOWN_BUNDESLAND,
+    };
+  }
+  if (options.mode && !Object.values(FinanzamtMode).includes(options.mode)) {
+    throw new Error(`Unknown Finanzamt mode "${options.mode}"`);
+  }
+  const unknownKind = options.expectedKinds?.find(
+    (kind) => !Object.values(FinanzamtKind).includes(kind)
+  );
+  if (unknownKind) {
+    throw new Error(`Unknown Finanzamt kind "${unknownKind}"`);
+  }
+  if (options.asOf !== undefined && !toIsoDate(options.asOf)) {
+    return {
+      valid: false,
+      reason: 'Invalid as-of date',
+      errorCode: ValidationErrorCode.INVALID_FORMAT,
+    };
+  }
+  if (options.bufa && !lookupFinanzamt(options.bufa, options)) {
     return {
       valid: false,
-      reason: 'Unknown Finanzamt number - no matching BUFA found',
+      reason: 'Unknown BUFA or Finanzamt',
+      errorCode: ValidationErrorCode.UNKNOWN_BUFA,
     };
   }
+  return undefined;
+}
 
-  // Try each possible BUFA and see if any produces a valid 13-digit number
-  for (const bufa of possibleBufas) {
-    const converted13Digit = normalizeTo13Digits(normalized, bufa);
+function resolveMode(options: SteuernummerValidationOptions): FinanzamtModeType {
+  return options.mode ?? getDefaultFinanzamtMode();
+}
 
-    if (converted13Digit) {
-      const info = BUFA_MAP[bufa];
-      const isValidCheckDigit = validatePruefziffer(converted13Digit, info);
+/**
+ * Looks up a Finanzamt in the mode and on the date given by the options
+ */
+function lookupFinanzamt(
+  bufa: string,
+  options: SteuernummerValidationOptions
+): FinanzamtInfo | undefined {
+  const asOf = options.asOf !== undefined ? toIsoDate(options.asOf) : null;
+  return getFinanzamt(bufa, resolveMode(options), asOf ?? undefined);
+}
 
-      if (isValidCheckDigit) {
-        // Found a valid conversion!
-        return {
-          valid: true,
-          normalized: converted13Digit,
-          bufa,
-          bundesland: info.bundesland,
-        };
-      }
+/**
+ * Returns the Land named by the Bundesland, Landesnummer or BUFA option
+ */
+function selectedLaenderFormat(options: SteuernummerValidationOptions): LaenderFormat | undefined {
+  if (options.bundesland) return findLaenderFormat(options.bundesland);
+  if (options.landesnummer) return getLaenderFormat(options.landesnummer);
+  if (options.bufa) return getLaenderFormat(options.bufa.substring(0, 2));
+  return undefined;
+}
+
+/**
+ * Returns the BUFAs a 10 or 11-digit tax number stands for in the given Länder
+ */
+function findPossibleBufas(normalized: string, formats: LaenderFormat[]): string[] {
+  const bufas: string[] = [];
+
+  for (const format of formats) {
+    const elster13 = laenderToElster(normalized, format);
+
+    if (elster13) {
+      bufas.push(elster13.substring(0, 4));
     }
   }
 
-  // None of the possible conversions passed Prüfziffer validation - reject it
-  return {
-    valid: false,
-    reason: 'Invalid check digit (Prüfziffer) for all possible BUFAs',
-  };
+  return bufas;
 }
 
 /**
- * Validates 11-digit format tax numbers by converting to 13-digit ELSTER format
- * Used by some federal states
+ * Finds the known Finanzämter of the possible BUFAs of a Länder format number
  */
-function validate11DigitFormat(normalized: string): {
-  valid: boolean;
-  normalized?: string;
-  bufa?: string;
-  bundesland?: string;
-  reason?: string;
-} {
+function findPossibleFinanzaemter(
+  bufas: string[],
+  options: SteuernummerValidationOptions
+): FinanzamtInfo[] {
+  return bufas
+    .map((bufa) => lookupFinanzamt(bufa, options))
+    .filter((info): info is FinanzamtInfo => info !== undefined);
+}
+
+/**
+ * Result for a Länder format number whose possible BUFAs are all unknown; like
+ * the 12 and 13-digit formats, it names a test or closed Finanzamt among them
+ */
+function unknownLaenderBufaResult(bufas: string[]): SteuernummerValidationResult {
+  const reason = 'Unknown Finanzamt number - no matching BUFA found';
+  return (
+    bufas
+      .map((bufa) => unknownBufaResult(bufa, reason))
+      .find((result) => result.errorCode !== ValidationErrorCode.UNKNOWN_BUFA) ?? {
+      valid: false,
+      reason,
+      errorCode: ValidationErrorCode.UNKNOWN_BUFA,
+    }
+  );
+}
+
+/**
+ * Validates 10 and 11-digit Länder format tax numbers by converting to 13-digit ELSTER format
+ *
+ * 10 digits: FF BBB UUUUP - Baden-Württemberg, Berlin, Bremen, Hamburg, Niedersachsen,
+ * Rheinland-Pfalz and Schleswig-Holstein
+ * 11 digits: FFF BBB UUUUP, or FFF BBBB UUUP in Nordrhein-Westfalen - Bayern, Brandenburg,
+ * Hessen, Mecklenburg-Vorpommern, NRW, Saarland, Sachsen, Sachsen-Anhalt and Thüringen
+ *
+ * The Länder format does not name the Land, so the same digits can be a valid
+ * Steuernummer of several Finanzämter. Every match is returned as a candidate;
+ * with more than one candidate the result is flagged as ambiguous and carries
+ * no bufa, bundesland or normalized number of its own.
+ *
+ * Separators narrow the Länder down to those whose layout puts them in the
+ * same places; separators that fit the layout of no Land make the number
+ * invalid. As numbers are often written with the separators of another Land,
+ * e.g. "22/815/08154" for Rheinland-Pfalz, every Land of that length is tried
+ * when none of those Länder accepts the number, just as without separators.
+ */
+function validateLaenderFormat(
+  normalized: string,
+  input: string,
+  options: SteuernummerValidationOptions
+): SteuernummerValidationResult {
   // Check if it's all zeros (invalid)
   if (/^0+$/.test(normalized)) {
-    return { valid: false, reason: 'Tax number cannot be all zeros' };
+    return {
+      valid: false,
+      reason: 'Tax number cannot be all zeros',
+      errorCode: ValidationErrorCode.ALL_ZEROS,
+    };
   }
 
-  // Extract Finanzamt number (first 2 digits)
-  const finanzamtNumber = normalized.substring(0, 2);
+  const formats = getLaenderFormateByLength(normalized.length);
+  if (!/\D/.test(input)) {
+    return validateInLaender(normalized, formats, options);
+  }
 
-  // Find all possible BUFAs with this Finanzamt number
-  const possibleBufas = findPossibleBufas(finanzamtNumber);
+  const written = formats.filter((format) => matchesLayout(input, format.laenderFormat));
+  if (written.length === 0) {
+    return {
+      valid: false,
+      reason: 'Separators do not fit the Länder format of any Bundesland',
+      errorCode: ValidationErrorCode.INVALID_FORMAT,
+    };
+  }
 
-  if (possibleBufas.length === 0) {
+  const result = validateInLaender(normalized, written, options);
+  if (result.valid || written.length === formats.length) return result;
+
+  const fallback = validateInLaender(normalized, formats, options);
+  return fallback.valid ? fallback : result;
+}
+
+/**
+ * Validates a 10 or 11-digit tax number against the Länder formats given
+ */
+function validateInLaender(
+  normalized: string,
+  formats: LaenderFormat[],
+  options: SteuernummerValidationOptions
+): SteuernummerValidationResult {
+  // Find all Finanzämter whose Länder format matches the number
+  const bufas = findPossibleBufas(normalized, formats);
+  const possible = findPossibleFinanzaemter(bufas, options);
+
+  if (possible.length === 0) {
     // No matching Finanzamt found - reject it
+    return unknownLaenderBufaResult(bufas);
+  }
+
+  // Only keep the Finanzämter allowed by the options
+  const allowed = possible.filter((info) => matchesOptions(info, options));
+
+  if (allowed.length === 0) {
+    // A number that fits the selected Land but no office of it is unknown
+    // rather than issued elsewhere
+    const selected = selectedLaenderFormat(options);
+    const selectedBufas = bufas.filter((bufa) =>
+      selected?.landesnummern.includes(bufa.substring(0, 2))
+    );
+    if (selectedBufas.length > 0 && !possible.some((info) => selectedBufas.includes(info.bufa))) {
+      return unknownLaenderBufaResult(selectedBufas);
+    }
+
     return {
       valid: false,
-      reason: 'Unknown Finanzamt number - no matching BUFA found',
+      reason: WRONG_FINANZAMT_REASON,
+      errorCode: ValidationErrorCode.WRONG_FINANZAMT,
     };
   }
 
-  // Try each possible BUFA and see if any produces a valid 13-digit number
-  for (const bufa of possibleBufas) {
-    const converted13Digit = normalizeTo13Digits(normalized, bufa);
+  // Collect every BUFA that produces a valid 13-digit number
+  const candidates: SteuernummerCandidate[] = [];
+  for (const info of allowed) {
+    const converted13Digit = normalizeTo13Digits(normalized, info.bufa);
+
+    if (converted13Digit && validatePruefziffer(converted13Digit, info)) {
+      candidates.push({
+        bufa: info.bufa,
+        normalized: converted13Digit,
+        name: info.name,
+        bundesland: info.bundesland,
+        isTest: info.isTest === true,
+        kind: getFinanzamtKind(info),
+      });
+    }
+  }
 
-    if (converted13Digit) {
-      const info = BUFA_MAP[bufa];
-      const isValidCheckDigit = validatePruefziffer(converted13Digit, info);
+  if (candidates.length === 0) {
+    // None of the possible conversions passed Prüfziffer validation - reject it
+    return {
+      valid: false,
+      reason: 'Invalid check digit (Prüfziffer) for all possible BUFAs',
+      errorCode: ValidationErrorCode.INVALID_CHECKSUM,
+    };
+  }
 
-      if (isValidCheckDigit) {
-        return {
-          valid: true,
-          normalized: converted13Digit,
-          bufa,
-          bundesland: info.bundesland,
-        };
-      }
-    }
+  if (candidates.length > 1) {
+    return {
+      valid: true,
+      ...finanzamtWarnings(candidates, options),
+      ambiguous: true,
+      candidates,
+    };
   }
 
-  // Reject - Prüfziffer validation failed
+  const [candidate] = candidates;
   return {
-    valid: false,
-    reason: 'Invalid check digit (Prüfziffer) for all possible BUFAs',
+    valid: true,
+    normalized: candidate.normalized,
+    bufa: candidate.bufa,
+    bundesland: candidate.bundesland,
+    isTest: candidate.isTest,
+    kind: candidate.kind,
+    ...finanzamtWarnings([candidate], options),
+    ambiguous: false,
+    candidates,
   };
 }
 
 /**
  * Validates 12-digit format tax numbers by converting to 13-digit ELSTER format
  */
-function validate12DigitFormat(normalized: string): {
-  valid: boolean;
-  normalized?: string;
-  bufa?: string;
-  bundesland?: string;
-  reason?: string;
-} {
+function validate12DigitFormat(
+  normalized: string,
+  options: SteuernummerValidationOptions
+): SteuernummerValidationResult {
   // Check if it's all zeros (invalid)
   if (/^0+$/.test(normalized)) {
-    return { valid: false, reason: 'Tax number cannot be all zeros' };
+    return {
+      valid: false,
+      reason: 'Tax number cannot be all zeros',
+      errorCode: ValidationErrorCode.ALL_ZEROS,
+    };
   }
 
   // Extract BUFA (first 4 digits: LL + FF)
   const bufa = normalized.substring(0, 4);
-  const info = BUFA_MAP[bufa];
+  const info = lookupFinanzamt(bufa, options);
 
   if (!info) {
     // Unknown BUFA - reject it
+    return unknownBufaResult(bufa, 'Unknown BUFA code - not a valid German tax office');
+  }
+
+  if (!matchesOptions(info, options)) {
     return {
       valid: false,
-      reason: 'Unknown BUFA code - not a valid German tax office',
+      reason: WRONG_FINANZAMT_REASON,
+      errorCode: ValidationErrorCode.WRONG_FINANZAMT,
+      bufa,
+      bundesland: info.bundesland,
     };
   }
 
@@ -161,7 +455,11 @@ function validate12DigitFormat(normalized: string): {
   const converted13Digit = normalizeTo13Digits(normalized, bufa);
 
   if (!converted13Digit) {
-    return { valid: false, reason: 'Cannot convert to 13-digit format' };
+    return {
+      valid: false,
+      reason: 'Cannot convert to 13-digit format',
+      errorCode: ValidationErrorCode.INVALID_FORMAT,
+    };
   }
 
   // Validate check digit
@@ -172,6 +470,7 @@ function validate12DigitFormat(normalized: string): {
     return {
       valid: false,
       reason: 'Invalid check digit (Prüfziffer)',
+      errorCode: ValidationErrorCode.INVALID_CHECKSUM,
     };
   }
 
@@ -180,31 +479,47 @@ function validate12DigitFormat(normalized: string): {
     normalized: converted13Digit,
     bufa,
     bundesland: info.bundesland,
+    isTest: info.isTest === true,
+    kind: getFinanzamtKind(info),
+    ...finanzamtWarnings([info], options),
   };
 }
 
 /**
  * Validates 13-digit ELSTER format with full BUFA and Prüfziffer validation
  */
-function validate13DigitFormat(normalized: string): {
-  valid: boolean;
-  normalized?: string;
-  bufa?: string;
-  bundesland?: string;
-  reason?: string;
-} {
+function validate13DigitFormat(
+  normalized: string,
+  options: SteuernummerValidationOptions
+): SteuernummerValidationResult {
   const landesnummer = normalized.substring(0, 2);
   const finanzamtsnummer = normalized.substring(2, 4);
   const bufa = landesnummer + finanzamtsnummer;
 
-  const info = BUFA_MAP[bufa];
+  const info = lookupFinanzamt(bufa, options);
   if (!info) {
-    return { valid: false, reason: 'Unknown BUFA or Finanzamt' };
+    return unknownBufaResult(bufa, 'Unknown BUFA or Finanzamt');
+  }
+
+  if (!matchesOptions(info, options)) {
+    return {
+      valid: false,
+      reason: WRONG_FINANZAMT_REASON,
+      errorCode: ValidationErrorCode.WRONG_FINANZAMT,
+      bufa,
+      bundesland: info.bundesland,
+    };
   }
 
   const isValidCheckDigit = validatePruefziffer(normalized, info);
   if (!isValidCheckDigit) {
-    return { valid: false, reason: 'Invalid Prüfziffer', bufa, bundesland: info.bundesland };
+    return {
+      valid: false,
+      reason: 'Invalid Prüfziffer',
+      errorCode: ValidationErrorCode.INVALID_CHECKSUM,
+      bufa,
+      bundesland: info.bundesland,
+    };
   }
 
   return {
@@ -212,42 +527,57 @@ function validate13DigitFormat(normalized: string): {
     normalized,
     bufa,
     bundesland: info.bundesland,
+    isTest: info.isTest === true,
+    kind: getFinanzamtKind(info),
+    ...finanzamtWarnings([info], options),
   };
 }
 
 /**
  * Validates a German tax number (Steuernummer)
  * Supports multiple formats:
- * - 10 digits: Old format (FFBBB UUUUP) - converts to 13-digit ELSTER format if possible
- * - 11 digits: Some Länder format - converts to 13-digit ELSTER format if possible
- * - 12 digits: LLFF BBB UUUU - converts to 13-digit ELSTER format if possible
+ * - 10 digits: Länder format (FF BBB UUUUP) - converts to 13-digit ELSTER format if possible
+ * - 11 digits: Länder format (FFF BBB UUUUP) - converts to 13-digit ELSTER format if possible
+ * - 12 digits: FFFF BBB UUUUP - converts to 13-digit ELSTER format if possible
  * - 13 digits: ELSTER unified format with full BUFA and Prüfziffer validation
  *
  * For 10, 11, and 12-digit formats, the function attempts to convert to 13-digit ELSTER
  * format and validate with full BUFA and Prüfziffer checking. If conversion is not possible,
  * basic validation is performed.
+ *
+ * @param input - Tax number with or without formatting
+ * @param options - Bundesland, Landesnummer or BUFA the number must belong to
  */
-export function validateSteuernummer(input: string): {
-  valid: boolean;
-  normalized?: string;
-  bufa?: string;
-  bundesland?: string;
-  reason?: string;
-} {
+export function validateSteuernummer(
+  input: string,
+  options: SteuernummerValidationOptions = {}
+): SteuernummerValidationResult {
+  const optionsError = validateOptions(options);
+  if (optionsError) return optionsError;
+
   const normalized = normalizeSteuernummer(input);
-  if (!normalized) return { valid: false, reason: 'Invalid length or characters' };
+  if (!normalized) {
+    return {
+      valid: false,
+      reason: 'Invalid length or characters',
+      errorCode: getSteuernummerInputError(input),
+    };
+  }
 
   // Route to appropriate validator based on length
   switch (normalized.length) {
     case 10:
-      return validate10DigitFormat(normalized);
     case 11:
-      return validate11DigitFormat(normalized);
+      return validateLaenderFormat(normalized, String(input).trim(), options);
     case 12:
-      return validate12DigitFormat(normalized);
+      return validate12DigitFormat(normalized, options);
     case 13:
-      return validate13DigitFormat(normalized);
+      return validate13DigitFormat(normalized, options);
     default:
-      return { valid: false, reason: 'Invalid length: must be 10, 11, 12, or 13 digits' };
+      return {
+        valid: false,
+        reason: 'Invalid length: must be 10, 11, 12, or 13 digits',
+        errorCode: ValidationErrorCode.INVALID_LENGTH,
+      };
   }
 }
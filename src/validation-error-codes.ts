@@ -0,0 +1,28 @@
+/**
+ * Machine-readable error codes returned by the validators
+ *
+ * The values are stable and safe to switch on in frontends and API clients.
+ */
+export const ValidationErrorCode = {
+  EMPTY: 'EMPTY' as const,
+  INVALID_LENGTH: 'INVALID_LENGTH' as const,
+  INVALID_CHARACTERS: 'INVALID_CHARACTERS' as const,
+  INVALID_FORMAT: 'INVALID_FORMAT' as const,
+  ALL_ZEROS: 'ALL_ZEROS' as const,
+  INVALID_CHECKSUM: 'INVALID_CHECKSUM' as const,
+  LEADING_ZERO: 'LEADING_ZERO' as const,
+  INVALID_DIGIT_REPETITION: 'INVALID_DIGIT_REPETITION' as const,
+  CONSECUTIVE_DIGITS: 'CONSECUTIVE_DIGITS' as const,
+  UNKNOWN_COUNTRY: 'UNKNOWN_COUNTRY' as const,
+  UNKNOWN_BUFA: 'UNKNOWN_BUFA' as const,
+  UNKNOWN_BUNDESLAND: 'UNKNOWN_BUNDESLAND' as const,
+  WRONG_FINANZAMT: 'WRONG_FINANZAMT' as const,
+  TEST_FINANZAMT: 'TEST_FINANZAMT' as const,
+  CLOSED_FINANZAMT: 'CLOSED_FINANZAMT' as const,
+  UNKNOWN_PRESET: 'UNKNOWN_PRESET' as const,
+} as const;
+
+/**
+ * Validation error code type
+ */
+export type ValidationErrorCodeType = (typeof ValidationErrorCode)[keyof typeof ValidationErrorCode];
@@ -0,0 +1,77 @@
+import { ValidationErrorCodeType } from './validation-error-codes';
+import { FinanzamtKindType } from './tax-number/finanzamtsdaten';
+import { SteuernummerCandidate } from './tax-number/validation-tax-number';
+
+/**
+ * Metadata of a German tax ID (Steueridentifikationsnummer)
+ */
+export type TaxIdMetadata = {
+  checkDigit?: number;
+};
+
+/**
+ * Metadata of a German tax number (Steuernummer)
+ */
+export type TaxNumberMetadata = {
+  bufa?: string;
+  bundesland?: string;
+  finanzamt?: string; // Name of the issuing Finanzamt
+  isTest?: boolean; // Issued by an ELSTER test Finanzamt
+  kind?: FinanzamtKindType; // What the issuing Finanzamt is responsible for
+  successor?: string; // BUFA that took over the Steuernummern of a closed Finanzamt
+  // Only set for 10 and 11-digit Länder formats
+  ambiguous?: boolean;
+  candidates?: SteuernummerCandidate[];
+};
+
+/**
+ * Metadata of a VAT ID (Umsatzsteuer-Identifikationsnummer)
+ */
+export type VatIdMetadata = {
+  countryCode?: string; // VAT prefix, e.g. "DE" or "EL"
+  isoCountryCode?: string; // ISO 3166-1 alpha-2 code, e.g. "GR" for "EL"; only set for EU VAT IDs
+  checkDigit?: number;
+};
+
+/**
+ * Metadata of an IBAN
+ */
+export type IbanMetadata = {
+  countryCode?: string; // e.g. "DE"
+  checkDigits?: string; // e.g. "89"
+  bban?: string; // Basic Bank Account Number, the IBAN without country code and check digits
+};
+
+/**
+ * Metadata of a BIC/SWIFT code
+ */
+export type BicMetadata = {
+  bankCode?: string; // e.g. "DEUT"
+  countryCode?: string; // e.g. "DE"
+  locationCode?: string; // e.g. "FF"
+  branchCode?: string; // e.g. "500", unset for 8-character BICs
+};
+
+/**
+ * Metadata of any validation preset
+ */
+export type ValidationMetadata =
+  | TaxIdMetadata
+  | TaxNumberMetadata
+  | VatIdMetadata
+  | IbanMetadata
+  | BicMetadata;
+
+/**
+ * Detailed result of a validation preset
+ *
+ * normalized is the value in its canonical form, or null if the value is
+ * invalid. errors is empty for valid values.
+ */
+export type ValidationResult<TMetadata extends ValidationMetadata = ValidationMetadata> = {
+  valid: boolean;
+  normalized: string | null;
+  errors: ValidationErrorCodeType[];
+  warnings?: string[]; // Set for accepted values that need attention, e.g. test Finanzämter
+  metadata: TMetadata;
+};
@@ -0,0 +1,471 @@
+import { calculateMod11_10CheckDigit } from '../iso7064';
+
+/**
+ * Checks the check digits and national rules of the number after the VAT
+ * prefix; the number must already match the pattern of its VatFormat
+ */
+export type VatChecksum = (number: string) => boolean;
+
+const AT_MULTIPLIERS = [1, 2, 1, 2, 1, 2, 1];
+
+const BG_LEGAL_MULTIPLIERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const BG_LEGAL_ALTERNATIVE_MULTIPLIERS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+const BG_PERSON_MULTIPLIERS = [2, 4, 8, 5, 10, 9, 7, 3, 6];
+
+const BG_FOREIGNER_MULTIPLIERS = [21, 19, 17, 13, 11, 9, 7, 3, 1];
+
+const BG_OTHER_MULTIPLIERS = [4, 3, 2, 7, 6, 5, 4, 3, 2];
+
+// Values of the digits at odd positions (first, third, ...) of a Cypriot number
+const CY_ODD_VALUES = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+
+const CZ_MULTIPLIERS = [8, 7, 6, 5, 4, 3, 2];
+
+const DK_MULTIPLIERS = [2, 7, 6, 5, 4, 3, 2, 1];
+
+const EE_MULTIPLIERS = [3, 7, 1, 3, 7, 1, 3, 7];
+
+const EL_MULTIPLIERS = [256, 128, 64, 32, 16, 8, 4, 2];
+
+const FI_MULTIPLIERS = [7, 9, 10, 5, 8, 4, 2, 1];
+
+const HU_MULTIPLIERS = [9, 7, 3, 1, 9, 7, 3, 1];
+
+const LT_MULTIPLIERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1, 2];
+
+const LT_ALTERNATIVE_MULTIPLIERS = [3, 4, 5, 6, 7, 8, 9, 1, 2, 3, 4];
+
+const LV_LEGAL_MULTIPLIERS = [9, 1, 4, 8, 3, 10, 2, 5, 7, 6, 1];
+
+const LV_PERSON_MULTIPLIERS = [10, 5, 8, 4, 2, 1, 6, 3, 7, 9];
+
+const MT_MULTIPLIERS = [3, 4, 6, 7, 8, 9, 10, 1];
+
+const NL_MULTIPLIERS = [9, 8, 7, 6, 5, 4, 3, 2, -1];
+
+const PL_MULTIPLIERS = [6, 5, 7, 2, 3, 4, 5, 6, 7, -1];
+
+const PT_MULTIPLIERS = [9, 8, 7, 6, 5, 4, 3, 2];
+
+const RO_MULTIPLIERS = [7, 5, 3, 2, 1, 7, 5, 3, 2];
+
+const SI_MULTIPLIERS = [8, 7, 6, 5, 4, 3, 2];
+
+// The check digits of UK numbers are part of the sum
+const XI_MULTIPLIERS = [8, 7, 6, 5, 4, 3, 2, 10, 1];
+
+const ES_CONTROL_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+const ES_ENTITY_CHECK_LETTERS = 'JABCDEFGHI';
+
+// Alphabet of the French key; I and O are left out
+const FR_KEY_ALPHABET = '0123456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+// Check letters of Irish numbers, the remainder 0 maps to W
+const IE_CHECK_LETTERS = 'WABCDEFGHIJKLMNOPQRSTUV';
+
+/**
+ * Austria: 'U' and 8 digits, Luhn-style with an offset of 4
+ */
+function checkAT(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    sum += digitSum(Number(number[i + 1]) * AT_MULTIPLIERS[i]);
+  }
+  return (10 - ((sum + 4) % 10)) % 10 === Number(number[8]);
+}
+
+/**
+ * Belgium: the last two digits are 97 minus the first eight modulo 97
+ */
+function checkBE(number: string): boolean {
+  return 97 - (Number(number.substring(0, 8)) % 97) === Number(number.substring(8));
+}
+
+/**
+ * Bulgaria: 9 digits for legal entities; 10 digits for persons (EGN),
+ * foreigners (LNCh) and others, each with its own check digit
+ */
+function checkBG(number: string): boolean {
+  if (number.length === 9) {
+    let check = weightedSum(number, BG_LEGAL_MULTIPLIERS) % 11;
+    if (check === 10) {
+      check = weightedSum(number, BG_LEGAL_ALTERNATIVE_MULTIPLIERS) % 11;
+    }
+    return check % 10 === Number(number[8]);
+  }
+
+  const check = Number(number[9]);
+  return (
+    (isValidBulgarianBirthDate(number) &&
+      (weightedSum(number, BG_PERSON_MULTIPLIERS) % 11) % 10 === check) ||
+    weightedSum(number, BG_FOREIGNER_MULTIPLIERS) % 10 === check ||
+    (11 - (weightedSum(number, BG_OTHER_MULTIPLIERS) % 11)) % 11 === check
+  );
+}
+
+/**
+ * Cyprus: 8 digits and a check letter calculated modulo 26
+ */
+function checkCY(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    const digit = Number(number[i]);
+    sum += i % 2 === 0 ? CY_ODD_VALUES[digit] : digit;
+  }
+  return String.fromCharCode(65 + (sum % 26)) === number[8];
+}
+
+/**
+ * Czechia: 8 digits for legal entities, 9 digits starting with 6 for special
+ * cases, otherwise the birth number (rodné číslo) of a person
+ */
+function checkCZ(number: string): boolean {
+  if (number.length === 8) {
+    if (number[0] === '9') return false;
+    const check = (11 - (weightedSum(number, CZ_MULTIPLIERS) % 11)) % 11;
+    return (check === 0 ? 1 : check % 10) === Number(number[7]);
+  }
+
+  if (number.length === 9 && number[0] === '6') {
+    const sum = weightedSum(number.substring(1), CZ_MULTIPLIERS) % 11;
+    return (((8 - ((10 - sum) % 11)) % 10) + 10) % 10 === Number(number[8]);
+  }
+
+  return isValidCzechBirthNumber(number);
+}
+
+/**
+ * Germany: ISO 7064 MOD 11,10; bodies of a single repeated digit are never issued
+ */
+function checkDE(number: string): boolean {
+  const body = number.substring(0, 8);
+  return !/^(\d)\1*$/.test(body) && calculateMod11_10CheckDigit(body) === Number(number[8]);
+}
+
+function checkDK(number: string): boolean {
+  return weightedSum(number, DK_MULTIPLIERS) % 11 === 0;
+}
+
+function checkEE(number: string): boolean {
+  return (10 - (weightedSum(number, EE_MULTIPLIERS) % 10)) % 10 === Number(number[8]);
+}
+
+function checkEL(number: string): boolean {
+  return (weightedSum(number, EL_MULTIPLIERS) % 11) % 10 === Number(number[8]);
+}
+
+/**
+ * Spain: the NIF of a person (DNI, NIE or K/L/M number) with a control
+ * letter, or the CIF of an entity with a check digit or letter
+ */
+function checkES(number: string): boolean {
+  const first = number[0];
+  const last = number[8];
+
+  if (/\d/.test(first)) {
+    return ES_CONTROL_LETTERS[Number(number.substring(0, 8)) % 23] === last;
+  }
+  if ('XYZ'.includes(first)) {
+    const digits = String('XYZ'.indexOf(first)) + number.substring(1, 8);
+    return ES_CONTROL_LETTERS[Number(digits) % 23] === last;
+  }
+  if ('KLM'.includes(first)) {
+    return ES_CONTROL_LETTERS[Number(number.substring(1, 8)) % 23] === last;
+  }
+  if (!'ABCDEFGHJNPQRSUVW'.includes(first)) {
+    return false;
+  }
+
+  const check = calculateLuhnCheckDigit(number.substring(1, 8));
+  return last === String(check) || last === ES_ENTITY_CHECK_LETTERS[check];
+}
+
+function checkFI(number: string): boolean {
+  return weightedSum(number, FI_MULTIPLIERS) % 11 === 0;
+}
+
+/**
+ * France: a 2-character key and the SIREN; numeric keys are derived from the
+ * SIREN modulo 97, alphanumeric keys follow the newer scheme
+ */
+function checkFR(number: string): boolean {
+  const key = number.substring(0, 2);
+  const siren = number.substring(2);
+
+  // Numbers from Monaco have no SIREN
+  if (!siren.startsWith('000') && !isLuhnValid(siren)) {
+    return false;
+  }
+
+  if (/^\d{2}$/.test(key)) {
+    return (12 + 3 * (Number(siren) % 97)) % 97 === Number(key);
+  }
+
+  const first = FR_KEY_ALPHABET.indexOf(key[0]);
+  const second = FR_KEY_ALPHABET.indexOf(key[1]);
+  const value = first < 10 ? first * 24 + second - 10 : first * 34 + second - 100;
+  return (Number(siren) + 1 + Math.floor(value / 11)) % 11 === value % 11;
+}
+
+function checkHR(number: string): boolean {
+  return calculateMod11_10CheckDigit(number.substring(0, 10)) === Number(number[10]);
+}
+
+function checkHU(number: string): boolean {
+  return weightedSum(number, HU_MULTIPLIERS) % 10 === 0;
+}
+
+/**
+ * Ireland: 7 digits, a check letter and an optional second letter that is
+ * part of the check, or the old format with a letter as second character
+ */
+function checkIE(number: string): boolean {
+  if (/^\d{7}/.test(number)) {
+    return calculateIrishCheckLetter(number.substring(0, 7), number[8]) === number[7];
+  }
+  return calculateIrishCheckLetter(`0${number.substring(2, 7)}${number[0]}`) === number[7];
+}
+
+/**
+ * Italy: Luhn over all 11 digits; digits 8-10 are the issuing office
+ */
+function checkIT(number: string): boolean {
+  const office = Number(number.substring(7, 10));
+  if (Number(number.substring(0, 7)) === 0) return false;
+  if (!(office >= 1 && office <= 100) && ![120, 121, 888, 999].includes(office)) return false;
+  return isLuhnValid(number);
+}
+
+/**
+ * Lithuania: 9 digits for legal entities, 12 for temporary taxpayers; a
+ * second set of multipliers is used if the first yields 10
+ */
+function checkLT(number: string): boolean {
+  const body = number.substring(0, number.length - 1);
+  let check = weightedSum(body, LT_MULTIPLIERS) % 11;
+  if (check === 10) {
+    check = weightedSum(body, LT_ALTERNATIVE_MULTIPLIERS) % 11;
+  }
+  return check % 10 === Number(number[number.length - 1]);
+}
+
+function checkLU(number: string): boolean {
+  return Number(number.substring(0, 6)) % 89 === Number(number.substring(6));
+}
+
+/**
+ * Latvia: legal entities start with a digit above 3, persons with their date
+ * of birth (DDMMYY and a century digit)
+ */
+function checkLV(number: string): boolean {
+  if (Number(number[0]) > 3) {
+    return weightedSum(number, LV_LEGAL_MULTIPLIERS) % 11 === 3;
+  }
+
+  const year = 1800 + 100 * Number(number[6]) + Number(number.substring(4, 6));
+  if (!isValidDate(year, Number(number.substring(2, 4)), Number(number.substring(0, 2)))) {
+    return false;
+  }
+  return ((1 + weightedSum(number, LV_PERSON_MULTIPLIERS)) % 11) % 10 === Number(number[10]);
+}
+
+function checkMT(number: string): boolean {
+  return weightedSum(number, MT_MULTIPLIERS) % 37 === 0;
+}
+
+/**
+ * Netherlands: companies use the 11-check on the first 9 digits, sole
+ * proprietors since 2020 MOD 97 over the whole VAT ID as in ISO 7064
+ */
+function checkNL(number: string): boolean {
+  return mod(weightedSum(number, NL_MULTIPLIERS), 11) === 0 || mod97(`NL${number}`) === 1;
+}
+
+function checkPL(number: string): boolean {
+  return mod(weightedSum(number, PL_MULTIPLIERS), 11) === 0;
+}
+
+function checkPT(number: string): boolean {
+  return ((11 - (weightedSum(number, PT_MULTIPLIERS) % 11)) % 11) % 10 === Number(number[8]);
+}
+
+/**
+ * Romania: 2 to 10 digits, weighted from the right
+ */
+function checkRO(number: string): boolean {
+  const padded = number.padStart(10, '0');
+  return ((10 * weightedSum(padded, RO_MULTIPLIERS)) % 11) % 10 === Number(padded[9]);
+}
+
+/**
+ * Sweden: the 10-digit organisation number (Luhn) followed by "01"
+ */
+function checkSE(number: string): boolean {
+  return isLuhnValid(number.substring(0, 10));
+}
+
+function checkSI(number: string): boolean {
+  const check = 11 - (weightedSum(number, SI_MULTIPLIERS) % 11);
+  return check !== 11 && check % 10 === Number(number[7]);
+}
+
+function checkSK(number: string): boolean {
+  return Number(number) % 11 === 0;
+}
+
+/**
+ * Northern Ireland: UK numbers; government departments (GD) are numbered
+ * below 500, health authorities (HA) from 500. Numbers from 100 onwards also
+ * use the newer check digits (MOD 9755).
+ */
+function checkXI(number: string): boolean {
+  if (number.startsWith('GD')) return Number(number.substring(2)) < 500;
+  if (number.startsWith('HA')) return Number(number.substring(2)) >= 500;
+
+  const remainder = weightedSum(number, XI_MULTIPLIERS) % 97;
+  return Number(number.substring(0, 3)) >= 100 ? [0, 42, 55].includes(remainder) : remainder === 0;
+}
+
+/**
+ * Check of each country, keyed by VAT prefix
+ */
+export const VAT_CHECKSUMS: Record<string, VatChecksum> = {
+  AT: checkAT,
+  BE: checkBE,
+  BG: checkBG,
+  CY: checkCY,
+  CZ: checkCZ,
+  DE: checkDE,
+  DK: checkDK,
+  EE: checkEE,
+  EL: checkEL,
+  ES: checkES,
+  FI: checkFI,
+  FR: checkFR,
+  HR: checkHR,
+  HU: checkHU,
+  IE: checkIE,
+  IT: checkIT,
+  LT: checkLT,
+  LU: checkLU,
+  LV: checkLV,
+  MT: checkMT,
+  NL: checkNL,
+  PL: checkPL,
+  PT: checkPT,
+  RO: checkRO,
+  SE: checkSE,
+  SI: checkSI,
+  SK: checkSK,
+  XI: checkXI,
+};
+
+/**
+ * Sums the digits multiplied by their multipliers; digits without a
+ * multiplier and multipliers without a digit are ignored
+ */
+function weightedSum(digits: string, multipliers: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(digits.length, multipliers.length); i++) {
+    sum += Number(digits[i]) * multipliers[i];
+  }
+  return sum;
+}
+
+function digitSum(value: number): number {
+  return Math.floor(value / 10) + (value % 10);
+}
+
+function mod(value: number, modulus: number): number {
+  return ((value % modulus) + modulus) % modulus;
+}
+
+/**
+ * Remainder modulo 97 of a string whose letters count as 10 (A) to 35 (Z),
+ * as for IBANs
+ */
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const number = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of number) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 1 ? digitSum(digit * 2) : digit;
+  }
+  return sum % 10 === 0;
+}
+
+function calculateLuhnCheckDigit(digits: string): number {
+  for (let check = 0; check < 10; check++) {
+    if (isLuhnValid(`${digits}${check}`)) return check;
+  }
+  return 0; // Unreachable, one of the digits always completes the number
+}
+
+function calculateIrishCheckLetter(digits: string, secondLetter?: string): string {
+  let sum = weightedSum(digits, [8, 7, 6, 5, 4, 3, 2]);
+  if (secondLetter) {
+    sum += 9 * IE_CHECK_LETTERS.indexOf(secondLetter);
+  }
+  return IE_CHECK_LETTERS[sum % 23];
+}
+
+/**
+ * Checks the date of birth in a Bulgarian EGN; 20 is added to the month for
+ * births before 1900 and 40 for births from 2000
+ */
+function isValidBulgarianBirthDate(number: string): boolean {
+  const year = Number(number.substring(0, 2));
+  const month = Number(number.substring(2, 4));
+  const day = Number(number.substring(4, 6));
+
+  if (month > 40) return isValidDate(2000 + year, month - 40, day);
+  if (month > 20) return isValidDate(1800 + year, month - 20, day);
+  return isValidDate(1900 + year, month, day);
+}
+
+/**
+ * Checks a Czech birth number (rodné číslo): 9 digits before 1954, 10 digits
+ * with a check digit since; women have 50 added to the month, and 20 may be
+ * added if a day runs out of numbers
+ */
+function isValidCzechBirthNumber(number: string): boolean {
+  let year = 1900 + Number(number.substring(0, 2));
+  const month = (Number(number.substring(2, 4)) % 50) % 20;
+  const day = Number(number.substring(4, 6));
+
+  if (number.length === 9) {
+    if (year > 1980) year -= 100;
+    if (year > 1953) return false;
+  } else if (year < 1954) {
+    year += 100;
+  }
+  if (!isValidDate(year, month, day)) {
+    return false;
+  }
+
+  if (number.length === 10) {
+    const check = Number(number.substring(0, 9)) % 11;
+    return (year < 1985 ? check % 10 : check) === Number(number[9]);
+  }
+  return true;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+  );
+}
@@ -0,0 +1,90 @@
+import * as validCountryCodes from '../country-codes.json';
+import { ValidationErrorCode, ValidationErrorCodeType } from '../validation-error-codes';
+import { ValidationResult, VatIdMetadata } from '../validation-result';
+import { VAT_CHECKSUMS } from './checksums';
+import { VatFormat, getVatFormat } from './vat-formats';
+
+/**
+ * Checks a VAT ID of any EU member state or Northern Ireland
+ *
+ * Requirements:
+ * - Country prefix followed by the national number, e.g. "ATU13585627" or "FR 40 303265045"
+ * - The prefix must be one of VAT_FORMATS; Greece uses "EL", Northern Ireland "XI"
+ * - The number must have the length and format of the country
+ * - The check digits must be valid according to the country's algorithm
+ *
+ * @returns The error code of the first failed requirement, or null if the VAT ID is valid
+ */
+export function getEuVatIdError(vatId: string): ValidationErrorCodeType | null {
+  if (typeof vatId !== 'string' || !vatId.trim()) {
+    return ValidationErrorCode.EMPTY;
+  }
+
+  const cleaned = normalizeVatId(vatId);
+  if (!/^[A-Z0-9+*]+$/.test(cleaned)) {
+    return ValidationErrorCode.INVALID_CHARACTERS;
+  }
+  if (!/^[A-Z]{2}/.test(cleaned)) {
+    return ValidationErrorCode.INVALID_FORMAT;
+  }
+
+  const format = findVatFormat(cleaned);
+  if (!format) {
+    return ValidationErrorCode.UNKNOWN_COUNTRY;
+  }
+
+  const number = cleaned.substring(2);
+  if (!format.lengths.includes(number.length)) {
+    return ValidationErrorCode.INVALID_LENGTH;
+  }
+  if (!format.pattern.test(number)) {
+    return ValidationErrorCode.INVALID_FORMAT;
+  }
+  if (!VAT_CHECKSUMS[format.countryCode](number)) {
+    return ValidationErrorCode.INVALID_CHECKSUM;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a VAT ID of any EU member state or Northern Ireland and returns
+ * it without whitespace, along with the detected country
+ */
+export function validateEuVatIdDetailed(vatId: string): ValidationResult<VatIdMetadata> {
+  const error = getEuVatIdError(vatId);
+  if (error) {
+    return { valid: false, normalized: null, errors: [error], metadata: {} };
+  }
+
+  const normalized = normalizeVatId(vatId);
+  const format = findVatFormat(normalized) as VatFormat;
+  return {
+    valid: true,
+    normalized,
+    errors: [],
+    metadata: { countryCode: format.countryCode, isoCountryCode: format.isoCountryCode },
+  };
+}
+
+/**
+ * Validates a VAT ID of any EU member state or Northern Ireland
+ */
+export function validateEuVatId(vatId: string): boolean {
+  return validateEuVatIdDetailed(vatId).valid;
+}
+
+function normalizeVatId(vatId: string): string {
+  return vatId.trim().replace(/\s/g, '').toUpperCase();
+}
+
+/**
+ * Looks up the format of the VAT prefix; its country must also be one of the
+ * IBAN countries, as every VAT country is
+ */
+function findVatFormat(vatId: string): VatFormat | undefined {
+  const format = getVatFormat(vatId.substring(0, 2));
+  return format && validCountryCodes.countryCodes.includes(format.isoCountryCode)
+    ? format
+    : undefined;
+}
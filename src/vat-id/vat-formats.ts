@@ -0,0 +1,221 @@
+/**
+ * VAT ID formats of the EU member states and Northern Ireland
+ *
+ * A VAT ID is the country prefix followed by the national number. The prefix
+ * is the ISO 3166-1 alpha-2 code except for Greece ("EL") and Northern
+ * Ireland ("XI"), whose traders keep the UK number format under the Windsor
+ * Framework.
+ */
+export type VatFormat = {
+  countryCode: string; // VAT prefix, e.g. "DE" or "EL"
+  isoCountryCode: string; // ISO 3166-1 alpha-2 code, e.g. "GR" for "EL"
+  country: string;
+  lengths: number[]; // Allowed lengths of the number after the prefix
+  pattern: RegExp; // The number after the prefix
+};
+
+export const VAT_FORMATS: VatFormat[] = [
+  {
+    countryCode: 'AT',
+    isoCountryCode: 'AT',
+    country: 'Austria',
+    lengths: [9],
+    pattern: /^U\d{8}$/,
+  },
+  {
+    countryCode: 'BE',
+    isoCountryCode: 'BE',
+    country: 'Belgium',
+    lengths: [10],
+    pattern: /^[01]\d{9}$/,
+  },
+  {
+    countryCode: 'BG',
+    isoCountryCode: 'BG',
+    country: 'Bulgaria',
+    lengths: [9, 10],
+    pattern: /^\d{9,10}$/,
+  },
+  {
+    countryCode: 'CY',
+    isoCountryCode: 'CY',
+    country: 'Cyprus',
+    lengths: [9],
+    pattern: /^(?!12)[0-59]\d{7}[A-Z]$/,
+  },
+  {
+    countryCode: 'CZ',
+    isoCountryCode: 'CZ',
+    country: 'Czechia',
+    lengths: [8, 9, 10],
+    pattern: /^\d{8,10}$/,
+  },
+  {
+    countryCode: 'DE',
+    isoCountryCode: 'DE',
+    country: 'Germany',
+    lengths: [9],
+    pattern: /^[1-9]\d{8}$/,
+  },
+  {
+    countryCode: 'DK',
+    isoCountryCode: 'DK',
+    country: 'Denmark',
+    lengths: [8],
+    pattern: /^[1-9]\d{7}$/,
+  },
+  {
+    countryCode: 'EE',
+    isoCountryCode: 'EE',
+    country: 'Estonia',
+    lengths: [9],
+    pattern: /^10\d{7}$/,
+  },
+  {
+    countryCode: 'EL',
+    isoCountryCode: 'GR',
+    country: 'Greece',
+    lengths: [9],
+    pattern: /^\d{9}$/,
+  },
+  {
+    countryCode: 'ES',
+    isoCountryCode: 'ES',
+    country: 'Spain',
+    lengths: [9],
+    pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  },
+  {
+    countryCode: 'FI',
+    isoCountryCode: 'FI',
+    country: 'Finland',
+    lengths: [8],
+    pattern: /^\d{8}$/,
+  },
+  {
+    countryCode: 'FR',
+    isoCountryCode: 'FR',
+    country: 'France',
+    lengths: [11],
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/, // Key without I and O, then the SIREN
+  },
+  {
+    countryCode: 'HR',
+    isoCountryCode: 'HR',
+    country: 'Croatia',
+    lengths: [11],
+    pattern: /^\d{11}$/,
+  },
+  {
+    countryCode: 'HU',
+    isoCountryCode: 'HU',
+    country: 'Hungary',
+    lengths: [8],
+    pattern: /^\d{8}$/,
+  },
+  {
+    countryCode: 'IE',
+    isoCountryCode: 'IE',
+    country: 'Ireland',
+    lengths: [8, 9],
+    pattern: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  },
+  {
+    countryCode: 'IT',
+    isoCountryCode: 'IT',
+    country: 'Italy',
+    lengths: [11],
+    pattern: /^\d{11}$/,
+  },
+  {
+    countryCode: 'LT',
+    isoCountryCode: 'LT',
+    country: 'Lithuania',
+    lengths: [9, 12],
+    pattern: /^(\d{7}1\d|\d{10}1\d)$/,
+  },
+  {
+    countryCode: 'LU',
+    isoCountryCode: 'LU',
+    country: 'Luxembourg',
+    lengths: [8],
+    pattern: /^\d{8}$/,
+  },
+  {
+    countryCode: 'LV',
+    isoCountryCode: 'LV',
+    country: 'Latvia',
+    lengths: [11],
+    pattern: /^\d{11}$/,
+  },
+  {
+    countryCode: 'MT',
+    isoCountryCode: 'MT',
+    country: 'Malta',
+    lengths: [8],
+    pattern: /^[1-9]\d{7}$/,
+  },
+  {
+    countryCode: 'NL',
+    isoCountryCode: 'NL',
+    country: 'Netherlands',
+    lengths: [12],
+    pattern: /^\d{9}B\d{2}$/,
+  },
+  {
+    countryCode: 'PL',
+    isoCountryCode: 'PL',
+    country: 'Poland',
+    lengths: [10],
+    pattern: /^\d{10}$/,
+  },
+  {
+    countryCode: 'PT',
+    isoCountryCode: 'PT',
+    country: 'Portugal',
+    lengths: [9],
+    pattern: /^[1-9]\d{8}$/,
+  },
+  {
+    countryCode: 'RO',
+    isoCountryCode: 'RO',
+    country: 'Romania',
+    lengths: [2, 3, 4, 5, 6, 7, 8, 9, 10],
+    pattern: /^[1-9]\d{1,9}$/,
+  },
+  {
+    countryCode: 'SE',
+    isoCountryCode: 'SE',
+    country: 'Sweden',
+    lengths: [12],
+    pattern: /^\d{10}01$/,
+  },
+  {
+    countryCode: 'SI',
+    isoCountryCode: 'SI',
+    country: 'Slovenia',
+    lengths: [8],
+    pattern: /^[1-9]\d{7}$/,
+  },
+  {
+    countryCode: 'SK',
+    isoCountryCode: 'SK',
+    country: 'Slovakia',
+    lengths: [10],
+    pattern: /^[1-9]\d[2-47-9]\d{7}$/,
+  },
+  {
+    countryCode: 'XI',
+    isoCountryCode: 'GB',
+    country: 'Northern Ireland',
+    lengths: [5, 9, 12],
+    pattern: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/, // Standard, branch, government and health
+  },
+];
+
+/**
+ * Returns the format of the country with the given VAT prefix
+ */
+export function getVatFormat(countryCode: string): VatFormat | undefined {
+  return VAT_FORMATS.find((format) => format.countryCode === countryCode);
+}
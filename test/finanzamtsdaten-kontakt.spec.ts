@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the contact data of the Finanzämter
+ */
+import { validateBIC, validateIBAN } from '../src/preset-validation.helper';
+import { BUFA_MAP, getFinanzamt } from '../src/tax-number/finanzamtsdaten';
+import { FINANZAMT_KONTAKTDATEN } from '../src/tax-number/finanzamtsdaten-kontakt';
+import { registerFinanzaemter, resetFinanzamtData } from '../src/tax-number/finanzamtsdaten-laden';
+
+describe('Finanzamt contact data', () => {
+  const entries = Object.entries(FINANZAMT_KONTAKTDATEN);
+
+  it('should only describe known production Finanzämter', () => {
+    entries.forEach(([bufa]) => {
+      expect(BUFA_MAP[bufa]).toBeDefined();
+    });
+  });
+
+  it('should be merged into BUFA_MAP', () => {
+    entries.forEach(([bufa, kontaktdaten]) => {
+      expect(BUFA_MAP[bufa]).toMatchObject(kontaktdaten);
+    });
+  });
+
+  it('should only contain German postal codes', () => {
+    entries.forEach(([, { hausanschrift, postanschrift }]) => {
+      [hausanschrift?.plz, postanschrift?.plz]
+        .filter((plz) => plz !== undefined)
+        .forEach((plz) => expect(plz).toMatch(/^\d{5}$/));
+    });
+  });
+
+  it('should expose contact data registered at runtime through the BUFA lookup', () => {
+    const kontaktdaten = {
+      hausanschrift: { strasse: 'Musterstraße 1', plz: '66111', ort: 'Saarbrücken' },
+      bankverbindungen: [
+        { bank: 'Musterbank', iban: 'DE89370400440532013000', bic: 'COBADEFFXXX' },
+      ],
+    };
+
+    expect(registerFinanzaemter({ '1040': { ...BUFA_MAP['1040'], ...kontaktdaten } })).toEqual([]);
+    expect(getFinanzamt('1040')).toMatchObject(kontaktdaten);
+
+    resetFinanzamtData();
+    expect(getFinanzamt('1040')?.hausanschrift).toBe(FINANZAMT_KONTAKTDATEN['1040']?.hausanschrift);
+  });
+
+  it('should only contain valid German bank accounts', () => {
+    entries.forEach(([, { bankverbindungen = [] }]) => {
+      bankverbindungen.forEach(({ iban, bic }) => {
+        expect(iban.startsWith('DE')).toBe(true);
+        expect(validateIBAN(iban)).toBe(true);
+        expect(validateBIC(bic)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for loading Finanzamt data at runtime
+ */
+import {
+  BUFA_MAP,
+  FinanzamtInfo,
+  getClosedFinanzaemter,
+  getFinanzamt,
+} from '../src/tax-number/finanzamtsdaten';
+import {
+  loadFinanzamtData,
+  registerFinanzaemter,
+  resetFinanzamtData,
+} from '../src/tax-number/finanzamtsdaten-laden';
+import { TEST_BUFA_MAP } from '../src/tax-number/finanzamtsdaten-test';
+import { listFinanzaemter } from '../src/tax-number/finanzamtsverzeichnis';
+import { calculatePruefziffer } from '../src/tax-number/prufziffernverfahren';
+import { validateSteuernummer } from '../src/tax-number/validation-tax-number';
+
+describe('runtime Finanzamt data', () => {
+  const newOffice: FinanzamtInfo = {
+    bufa: '1099',
+    name: 'Saarbrücken III',
+    bundesland: 'Saarland',
+    landesnummer: '10',
+    finanzamtsnummer: '99',
+    verfahren: 'ELF',
+  };
+  const body = '109908150816';
+  const steuernummer = body + calculatePruefziffer(body + '0', newOffice);
+
+  afterEach(() => {
+    resetFinanzamtData();
+  });
+
+  it('should make registered Finanzämter available to validators', () => {
+    expect(validateSteuernummer(steuernummer).errorCode).toBe('UNKNOWN_BUFA');
+
+    expect(registerFinanzaemter([newOffice])).toEqual([]);
+
+    expect(validateSteuernummer(steuernummer)).toMatchObject({ valid: true, bufa: '1099' });
+    expect(listFinanzaemter({ bundesland: 'SL' }).map((info) => info.bufa)).toContain('1099');
+  });
+
+  it('should store a Bundesland given as code under its name', () => {
+    expect(registerFinanzaemter([{ ...newOffice, bundesland: 'SL' }])).toEqual([]);
+
+    expect(getFinanzamt('1099')?.bundesland).toBe('Saarland');
+    expect(listFinanzaemter({ bundesland: 'SL' }).map((info) => info.bufa)).toContain('1099');
+    expect(validateSteuernummer(steuernummer, { bundesland: 'Saarland' }).valid).toBe(true);
+  });
+
+  it('should replace bundled Finanzämter', () => {
+    const renamed = { ...BUFA_MAP['1040'], name: 'Saarbrücken Mitte' };
+
+    expect(registerFinanzaemter({ '1040': renamed })).toEqual([]);
+
+    expect(getFinanzamt('1040')?.name).toBe('Saarbrücken Mitte');
+  });
+
+  it('should register test Finanzämter separately', () => {
+    const testOffice = { ...newOffice, bufa: '1097', finanzamtsnummer: '97', isTest: true };
+
+    expect(registerFinanzaemter([testOffice])).toEqual([]);
+
+    expect(TEST_BUFA_MAP['1097']).toEqual({ ...testOffice, kind: 'general' });
+    expect(getFinanzamt('1097', 'production')).toBeUndefined();
+    expect(getFinanzamt('1097', 'test')?.name).toBe('Saarbrücken III');
+  });
+
+  it('should register closed Finanzämter with their lifetime', () => {
+    const closed = { ...newOffice, validTo: '2019-12-31', successor: '1055' };
+
+    expect(registerFinanzaemter([closed])).toEqual([]);
+
+    expect(getClosedFinanzaemter('1099')).toEqual([{ ...closed, kind: 'general' }]);
+    expect(getFinanzamt('1099')).toBeUndefined();
+    expect(getFinanzamt('1099', 'production', '2019-12-31')?.successor).toBe('1055');
+
+    resetFinanzamtData();
+
+    expect(getClosedFinanzaemter('1099')).toEqual([]);
+  });
+
+  it('should register nothing if an entry has an issue', () => {
+    const invalid = { ...newOffice, bufa: '1091', bundesland: 'Bayern' };
+
+    const issues = registerFinanzaemter([newOffice, invalid]);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ bufa: '1091', field: 'finanzamtsnummer' }),
+      expect.objectContaining({ bufa: '1091', field: 'bundesland' }),
+    ]);
+    expect(getFinanzamt('1099')).toBeUndefined();
+  });
+
+  it('should report BUFAs listed more than once', () => {
+    const renamed = { ...newOffice, name: 'Saarbrücken IV' };
+
+    expect(registerFinanzaemter([newOffice, renamed, newOffice])).toEqual([
+      { bufa: '1099', field: 'bufa', message: 'BUFA is listed more than once' },
+    ]);
+    expect(getFinanzamt('1099')).toBeUndefined();
+    expect(loadFinanzamtData(JSON.stringify([newOffice, renamed]))).toHaveLength(1);
+  });
+
+  it('should not turn test Finanzämter into production ones', () => {
+    expect(registerFinanzaemter({ '5198': { ...TEST_BUFA_MAP['5198'], isTest: false } })).toEqual([
+      { bufa: '5198', field: 'isTest', message: 'BUFA is both a production and a test Finanzamt' },
+    ]);
+  });
+
+  it('should load Finanzämter from JSON', () => {
+    expect(loadFinanzamtData(JSON.stringify({ '1099': newOffice }))).toEqual([]);
+
+    expect(getFinanzamt('1099')).toEqual({ ...newOffice, kind: 'general' });
+  });
+
+  it('should report entries of the wrong shape', () => {
+    expect(loadFinanzamtData('[{ "bufa": "1099", "name": 1099 }, null]')).toEqual([
+      { bufa: '1099', field: 'name', message: 'Field "name" must be a string' },
+      { bufa: '1099', field: 'bundesland', message: 'Field "bundesland" must be a string' },
+      { bufa: '1099', field: 'landesnummer', message: 'Field "landesnummer" must be a string' },
+      {
+        bufa: '1099',
+        field: 'finanzamtsnummer',
+        message: 'Field "finanzamtsnummer" must be a string',
+      },
+      { bufa: 'undefined', field: 'bufa', message: 'Finanzamt must be an object' },
+    ]);
+  });
+
+  it('should reject documents that are not Finanzamt data', () => {
+    expect(() => loadFinanzamtData('{')).toThrow(SyntaxError);
+    expect(() => loadFinanzamtData('"1099"')).toThrow(
+      'Finanzamt data must be an object keyed by BUFA or an array'
+    );
+  });
+
+  it('should restore the bundled data on reset', () => {
+    registerFinanzaemter([newOffice, { ...BUFA_MAP['1040'], name: 'Saarbrücken Mitte' }]);
+
+    resetFinanzamtData();
+
+    expect(getFinanzamt('1099')).toBeUndefined();
+    expect(getFinanzamt('1040')?.name).toBe('Saarbrücken I');
+    expect(validateSteuernummer(steuernummer).valid).toBe(false);
+  });
+
+  it('should restore bundled entries changed in place', () => {
+    BUFA_MAP['1040'].name = 'Saarbrücken Mitte';
+    delete BUFA_MAP['1010'];
+
+    resetFinanzamtData();
+
+    expect(getFinanzamt('1040')?.name).toBe('Saarbrücken I');
+    expect(getFinanzamt('1010')?.name).toBe('Saarlouis');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the Finanzamt data integrity checks
+ */
+import { BUFA_MAP, FinanzamtInfo } from '../src/tax-number/finanzamtsdaten';
+import { CLOSED_FINANZAEMTER } from '../src/tax-number/finanzamtsdaten-historie';
+import { resetFinanzamtData } from '../src/tax-number/finanzamtsdaten-laden';
+import { verifyFinanzamtData } from '../src/tax-number/finanzamtsdaten-pruefung';
+import { TEST_BUFA_MAP } from '../src/tax-number/finanzamtsdaten-test';
+
+describe('verifyFinanzamtData', () => {
+  const koeln = BUFA_MAP['5214'];
+
+  it('should find no issues in the bundled data', () => {
+    expect(verifyFinanzamtData()).toEqual([]);
+  });
+
+  it('should accept consistent custom data', () => {
+    expect(
+      verifyFinanzamtData({
+        '5214': koeln,
+        '1116': {
+          bufa: '1116',
+          name: 'Charlottenburg',
+          bundesland: 'BE',
+          landesnummer: '11',
+          finanzamtsnummer: '16',
+          verfahren: 'BERLIN_B',
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report BUFAs that do not match their key or parts', () => {
+    expect(
+      verifyFinanzamtData({
+        '5215': koeln,
+        '5299': { ...koeln, bufa: '5299' },
+        '52 (alt)': { ...koeln, bufa: '52 (alt)', finanzamtsnummer: ' (alt)' },
+      })
+    ).toEqual([
+      { bufa: '5215', field: 'bufa', message: 'BUFA "5214" differs from its key' },
+      {
+        bufa: '5299',
+        field: 'finanzamtsnummer',
+        message: 'BUFA "5299" is not Landesnummer "52" + Finanzamtsnummer "14"',
+      },
+      { bufa: '52 (alt)', field: 'bufa', message: 'BUFA "52 (alt)" is not a 4-digit number' },
+    ]);
+  });
+
+  it('should report the Bundesland of the Landesnummer', () => {
+    const info: FinanzamtInfo = { ...BUFA_MAP['9181'], bundesland: 'Baden-Württemberg' };
+
+    expect(verifyFinanzamtData({ '9181': info })).toEqual([
+      {
+        bufa: '9181',
+        field: 'bundesland',
+        message: 'Bundesland "Baden-Württemberg" does not match Landesnummer "91" (Bayern)',
+      },
+    ]);
+  });
+
+  it('should report unknown Landesnummern', () => {
+    const info: FinanzamtInfo = { ...koeln, bufa: '6014', landesnummer: '60', bundesland: 'Atlantis' };
+
+    expect(verifyFinanzamtData({ '6014': info })).toEqual([
+      { bufa: '6014', field: 'landesnummer', message: 'Unknown Landesnummer "60"' },
+    ]);
+  });
+
+  it('should report Verfahren that differ from the Land', () => {
+    expect(verifyFinanzamtData({ '5214': { ...koeln, verfahren: 'ELF' } })).toEqual([
+      {
+        bufa: '5214',
+        field: 'verfahren',
+        message: 'Verfahren "ELF" does not match the NRW_11 of Nordrhein-Westfalen',
+      },
+    ]);
+    expect(verifyFinanzamtData({ '5214': { ...koeln, verfahren: 'STANDARD' } })).toEqual([]);
+    expect(verifyFinanzamtData({ '5214': { ...koeln, verfahren: undefined } })).toEqual([]);
+  });
+
+  it('should accept the former name NRW of the NRW 11er-Verfahren', () => {
+    expect(verifyFinanzamtData({ '5214': { ...koeln, verfahren: 'NRW' } })).toEqual([]);
+    expect(verifyFinanzamtData({ '9181': { ...BUFA_MAP['9181'], verfahren: 'NRW' } })).toEqual([
+      {
+        bufa: '9181',
+        field: 'verfahren',
+        message: 'Verfahren "NRW" does not match the ELF of Bayern',
+      },
+    ]);
+  });
+
+  it('should report unknown kinds', () => {
+    const info = { ...koeln, kind: 'private' } as unknown as FinanzamtInfo;
+
+    expect(verifyFinanzamtData({ '5214': info })).toEqual([
+      { bufa: '5214', field: 'kind', message: 'Unknown kind "private"' },
+    ]);
+  });
+
+  it('should report missing names', () => {
+    expect(verifyFinanzamtData({ '5214': { ...koeln, name: ' ' } })).toEqual([
+      { bufa: '5214', field: 'name', message: 'Name is missing' },
+    ]);
+  });
+
+  describe('bundled data', () => {
+    const closed: FinanzamtInfo = {
+      ...koeln,
+      bufa: '5290',
+      finanzamtsnummer: '99',
+      validTo: '2019-12-31',
+    };
+
+    // Bypasses registerFinanzaemter, which refuses inconsistent data
+    afterEach(() => {
+      resetFinanzamtData();
+    });
+
+    it('should report test Finanzämter that are not flagged or reuse production BUFAs', () => {
+      TEST_BUFA_MAP['5198'].isTest = false;
+      TEST_BUFA_MAP['5214'] = { ...koeln, isTest: true };
+
+      expect(verifyFinanzamtData()).toEqual([
+        { bufa: '5198', field: 'isTest', message: 'Test Finanzamt is not flagged isTest' },
+        { bufa: '5214', field: 'isTest', message: 'BUFA is both a production and a test Finanzamt' },
+      ]);
+    });
+
+    it('should check closed Finanzämter', () => {
+      CLOSED_FINANZAEMTER.push(closed);
+
+      expect(verifyFinanzamtData()).toEqual([
+        {
+          bufa: '5290',
+          field: 'finanzamtsnummer',
+          message: 'BUFA "5290" is not Landesnummer "52" + Finanzamtsnummer "99"',
+        },
+      ]);
+    });
+  });
+});
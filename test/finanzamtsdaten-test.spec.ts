@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the ELSTER test Finanzämter
+ * Every test Finanzamt gets a generated Steuernummer that must pass validation in test mode
+ */
+import { formatSteuernummer } from '../src/tax-number/formatierung';
+import { BUFA_MAP } from '../src/tax-number/finanzamtsdaten';
+import { TEST_BUFA_MAP } from '../src/tax-number/finanzamtsdaten-test';
+import { LAENDER_FORMATE } from '../src/tax-number/laenderformate';
+import { LANDES_VERFAHREN, calculatePruefziffer } from '../src/tax-number/prufziffernverfahren';
+import { validateSteuernummer } from '../src/tax-number/validation-tax-number';
+
+/**
+ * Builds a valid 13-digit Steuernummer for a BUFA, skipping bodies without a Prüfziffer
+ */
+function generateSteuernummer(bufa: string): string {
+  const info = TEST_BUFA_MAP[bufa];
+  for (let body = 8150815; ; body++) {
+    const elster12 = `${bufa}0${body}`;
+    const pruefziffer = calculatePruefziffer(`${elster12}0`, info);
+    if (pruefziffer !== null) return `${elster12}${pruefziffer}`;
+  }
+}
+
+describe('ELSTER test Finanzämter', () => {
+  const testFinanzaemter = Object.values(TEST_BUFA_MAP);
+
+  it('should have a test Finanzamt in every Land', () => {
+    LAENDER_FORMATE.forEach((format) => {
+      expect(testFinanzaemter.some((info) => info.bundesland === format.bundesland)).toBe(true);
+    });
+  });
+
+  it('should not collide with production Finanzämter', () => {
+    testFinanzaemter.forEach((info) => {
+      expect(BUFA_MAP[info.bufa]).toBeUndefined();
+    });
+  });
+
+  it('should use the Prüfziffernverfahren of their Land', () => {
+    testFinanzaemter.forEach((info) => {
+      expect(info.isTest).toBe(true);
+      expect(info.bufa).toBe(info.landesnummer + info.finanzamtsnummer);
+      expect(info.verfahren).toBe(LANDES_VERFAHREN[info.landesnummer]);
+    });
+  });
+
+  describe.each(testFinanzaemter.map((info) => [info.bufa, info.bundesland]))(
+    'BUFA %s (%s)',
+    (bufa, bundesland) => {
+      const steuernummer = generateSteuernummer(bufa);
+
+      it('should validate a generated ELSTER number in test mode', () => {
+        const result = validateSteuernummer(steuernummer, { mode: 'test' });
+
+        expect(result).toMatchObject({ valid: true, bufa, bundesland, isTest: true });
+      });
+
+      it('should validate the generated number in Länder format', () => {
+        const laenderFormat = formatSteuernummer(steuernummer)!.laenderFormat;
+        const result = validateSteuernummer(laenderFormat, { bundesland, mode: 'test' });
+
+        expect(result).toMatchObject({ valid: true, normalized: steuernummer, isTest: true });
+      });
+
+      it('should reject the generated number in production mode', () => {
+        expect(validateSteuernummer(steuernummer).errorCode).toBe('TEST_FINANZAMT');
+      });
+    }
+  );
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for comparing Finanzamt datasets
+ */
+import { BUFA_MAP, FinanzamtInfo } from '../src/tax-number/finanzamtsdaten';
+import {
+  diffFinanzamtData,
+  formatFinanzamtChangelog,
+} from '../src/tax-number/finanzamtsdaten-vergleich';
+
+describe('Finanzamt data diff', () => {
+  const saarlouis = BUFA_MAP['1010'];
+  const merzig = BUFA_MAP['1020'];
+  const neunkirchen = BUFA_MAP['1030'];
+  const newOffice: FinanzamtInfo = {
+    bufa: '1099',
+    name: 'Saarbrücken III',
+    bundesland: 'Saarland',
+    landesnummer: '10',
+    finanzamtsnummer: '99',
+    isTest: false,
+    verfahren: 'ELF',
+  };
+
+  const before = { '1010': saarlouis, '1020': merzig, '1030': neunkirchen };
+  const after = {
+    '1099': newOffice,
+    '1020': { ...merzig, name: 'Merzig-Wadern', verfahren: 'STANDARD' as const },
+    '1010': { ...saarlouis, isTest: true, validTo: '2026-12-31' },
+  };
+
+  it('should find added, removed and changed Finanzämter', () => {
+    expect(diffFinanzamtData(before, after)).toEqual({
+      added: [newOffice],
+      removed: [neunkirchen],
+      changed: [
+        {
+          bufa: '1010',
+          before: saarlouis,
+          after: after['1010'],
+          fields: [
+            { field: 'isTest', before: false, after: true },
+            { field: 'validTo', before: undefined, after: '2026-12-31' },
+          ],
+        },
+        {
+          bufa: '1020',
+          before: merzig,
+          after: after['1020'],
+          fields: [
+            { field: 'name', before: 'Merzig', after: 'Merzig-Wadern' },
+            { field: 'verfahren', before: 'ELF', after: 'STANDARD' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should find no changes between equal datasets', () => {
+    expect(diffFinanzamtData(BUFA_MAP, { ...BUFA_MAP })).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  it('should treat an unset isTest as false', () => {
+    const { isTest: _isTest, ...withoutFlag } = saarlouis;
+
+    expect(diffFinanzamtData({ '1010': saarlouis }, { '1010': withoutFlag }).changed).toEqual([]);
+  });
+
+  it('should compare nested contact data', () => {
+    const withAddress = (ort: string): FinanzamtInfo => ({
+      ...saarlouis,
+      hausanschrift: { strasse: 'Am Stadtgraben 2-4', plz: '66740', ort },
+    });
+
+    const same = diffFinanzamtData(
+      { '1010': withAddress('Saarlouis') },
+      { '1010': withAddress('Saarlouis') }
+    );
+    expect(same.changed).toEqual([]);
+
+    const moved = diffFinanzamtData({ '1010': saarlouis }, { '1010': withAddress('Saarlouis') });
+    expect(moved.changed[0].fields.map((change) => change.field)).toEqual(['hausanschrift']);
+  });
+
+  it('should render a changelog for release notes', () => {
+    expect(formatFinanzamtChangelog(diffFinanzamtData(before, after))).toBe(
+      [
+        '### Added (1)',
+        '',
+        '- 1099 Saarbrücken III (Saarland)',
+        '',
+        '### Removed (1)',
+        '',
+        '- 1030 Neunkirchen (Saarland)',
+        '',
+        '### Changed (2)',
+        '',
+        '- 1010 Saarlouis (Saarland): now an ELSTER test Finanzamt; validTo unset → "2026-12-31"',
+        '- 1020 Merzig-Wadern (Saarland): renamed from "Merzig"; Prüfziffernverfahren ELF → STANDARD',
+      ].join('\n')
+    );
+  });
+
+  it('should say when nothing changed', () => {
+    expect(formatFinanzamtChangelog(diffFinanzamtData(before, before))).toBe(
+      'No changes to the Finanzamt data.'
+    );
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for the Finanzamt database
+ */
+import { BUFA_MAP, classifyFinanzamt, getFinanzamtKind } from '../src/tax-number/finanzamtsdaten';
+import { TEST_BUFA_MAP } from '../src/tax-number/finanzamtsdaten-test';
+
+describe('Finanzamt kinds', () => {
+  it.each([
+    ['für Körperschaften I', 'corporations'],
+    ['Stuttgart-Körpersch.', 'corporations'],
+    ['Hamburg für Großunternehmen in Hamburg', 'corporations'],
+    ['für Fahndung und Strafsachen Berlin', 'investigation'],
+    ['Hamburg für Prüfungsd. und Strafsachen', 'investigation'],
+    ['Landesamt zur Bekämpfung der Finanzkriminalität (LBF NRW)', 'investigation'],
+    ['Lohr a. Main mit Außenstellen - Grunderwerbsteuer', 'realEstateTransfer'],
+    ['Hamburg für Verkehrst. und Grundbesitz (10)', 'realEstateTransfer'],
+    ['Berlin International', 'international'],
+    ['Neubrandenburg - RIA (Rentenempfänger im Ausland)', 'international'],
+    ['Kiel Bewertung für Grundsteuer 79', 'propertyValuation'],
+    ['Kusel-Landstuhl für Erb/Schenk.St. Saarland', 'inheritanceTax'],
+    ['München (181) Überschusseinkünfte', 'general'],
+    ['Bielefeld-Außenstadt', 'general'],
+  ])('should classify %p as %s', (name, kind) => {
+    expect(classifyFinanzamt(name)).toBe(kind);
+  });
+
+  it('should set the kind of every bundled Finanzamt', () => {
+    [...Object.values(BUFA_MAP), ...Object.values(TEST_BUFA_MAP)].forEach((info) =>
+      expect(info.kind).toBeDefined()
+    );
+    expect(BUFA_MAP['1127'].kind).toBe('corporations');
+    expect(TEST_BUFA_MAP['5198'].kind).toBe('general');
+  });
+
+  it('should prefer a declared kind over the name', () => {
+    expect(getFinanzamtKind({ name: 'für Körperschaften I', kind: 'general' })).toBe('general');
+    expect(getFinanzamtKind({ name: 'für Körperschaften I' })).toBe('corporations');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the Finanzamt directory
+ */
+import { BUFA_MAP } from '../src/tax-number/finanzamtsdaten';
+import {
+  AGS_LANDESSCHLUESSEL,
+  ZUSTAENDIGKEITEN,
+} from '../src/tax-number/finanzamtsdaten-zustaendigkeit';
+import { LAENDER_FORMATE } from '../src/tax-number/laenderformate';
+import {
+  findFinanzaemterByAgs,
+  findFinanzaemterByPlz,
+  getFinanzamtByBufa,
+  getZustaendigkeitsVersion,
+  listFinanzaemter,
+  searchFinanzaemter,
+} from '../src/tax-number/finanzamtsverzeichnis';
+
+describe('Finanzamt directory', () => {
+  describe('getFinanzamtByBufa', () => {
+    it('should return the Finanzamt with the BUFA', () => {
+      expect(getFinanzamtByBufa('1040')).toMatchObject({
+        name: 'Saarbrücken I',
+        bundesland: 'Saarland',
+      });
+    });
+
+    it('should return undefined for unknown BUFAs', () => {
+      expect(getFinanzamtByBufa('9999')).toBeUndefined();
+    });
+
+    it('should only return test Finanzämter outside production mode', () => {
+      expect(getFinanzamtByBufa('5198')).toBeUndefined();
+      expect(getFinanzamtByBufa('5198', 'test')?.isTest).toBe(true);
+    });
+  });
+
+  describe('listFinanzaemter', () => {
+    it('should list all production Finanzämter sorted by BUFA', () => {
+      const finanzaemter = listFinanzaemter();
+
+      expect(finanzaemter.length).toBeGreaterThan(560);
+      expect(finanzaemter.every((info) => !info.isTest)).toBe(true);
+      expect(finanzaemter.map((info) => info.bufa)).toEqual(
+        finanzaemter.map((info) => info.bufa).sort()
+      );
+    });
+
+    it('should leave out former names marked (alt)', () => {
+      expect(BUFA_MAP['2314 (alt)'].name).toBe('Braunschweig-Wilhelmstr.');
+      expect(listFinanzaemter({ landesnummer: '23' }).map((info) => info.bufa)).not.toContain(
+        '2314 (alt)'
+      );
+    });
+
+    it('should list the Finanzämter of a Bundesland', () => {
+      const saarland = listFinanzaemter({ bundesland: 'SL' });
+
+      expect(saarland).toHaveLength(8);
+      expect(saarland.every((info) => info.bundesland === 'Saarland')).toBe(true);
+      expect(listFinanzaemter({ bundesland: 'Saarland' })).toEqual(saarland);
+    });
+
+    it('should list the Finanzämter of a Landesnummer', () => {
+      const finanzaemter = listFinanzaemter({ landesnummer: '52' });
+
+      expect(finanzaemter.length).toBeGreaterThan(0);
+      expect(finanzaemter.every((info) => info.bufa.startsWith('52'))).toBe(true);
+    });
+
+    it('should include test Finanzämter in test mode', () => {
+      const berlin = listFinanzaemter({ bundesland: 'BE', mode: 'test' });
+
+      expect(berlin.filter((info) => info.isTest).map((info) => info.bufa)).toEqual([
+        '1194',
+        '1195',
+        '1196',
+        '1197',
+        '1198',
+      ]);
+    });
+
+    it('should list the Finanzämter of a kind', () => {
+      const investigation = listFinanzaemter({ kind: 'investigation', bundesland: 'NI' });
+
+      expect(investigation.map((info) => info.name)).toEqual([
+        'für Fahndung und Strafsachen Braunschweig',
+        'Hannover für Fahndung und Strafsachen',
+        'Lüneburg für Fahndung und Strafsachen',
+        'Oldenburg für Fahndung und Strafsachen',
+      ]);
+    });
+
+    it('should return nothing for an unknown Bundesland', () => {
+      expect(listFinanzaemter({ bundesland: 'Atlantis' })).toEqual([]);
+    });
+  });
+
+  describe('searchFinanzaemter', () => {
+    it('should find names by prefix, ignoring case and umlauts', () => {
+      expect(searchFinanzaemter('saarbr').map((info) => info.name)).toEqual([
+        'Saarbrücken I',
+        'Saarbrücken II',
+      ]);
+    });
+
+    it.each(['Koeln', 'Koln', 'köln', 'KÖLN'])('should find Köln as %p', (query) => {
+      const names = searchFinanzaemter(query).map((info) => info.name);
+
+      expect(names).toContain('Köln-Altstadt');
+      expect(names.every((name) => name.startsWith('Köln'))).toBe(true);
+    });
+
+    it('should require every word of the query', () => {
+      expect(searchFinanzaemter('koeln sued').map((info) => info.name)).toEqual(['Köln-Süd']);
+      expect(searchFinanzaemter('münchen 181').map((info) => info.bufa)).toEqual(['9181']);
+    });
+
+    it('should rank names starting with the query first', () => {
+      const [first] = searchFinanzaemter('muenchen');
+
+      expect(first.name.startsWith('München')).toBe(true);
+    });
+
+    it('should search BUFA numbers by prefix', () => {
+      expect(searchFinanzaemter('104').map((info) => info.bufa)).toEqual(['1040']);
+    });
+
+    it('should apply filters and the limit', () => {
+      expect(searchFinanzaemter('koeln', { bundesland: 'BY' })).toEqual([]);
+      expect(searchFinanzaemter('muenchen', { limit: 3 })).toHaveLength(3);
+    });
+
+    it('should exclude test Finanzämter unless requested', () => {
+      expect(searchFinanzaemter('testfinanzamt')).toEqual([]);
+      expect(searchFinanzaemter('testfinanzamt', { mode: 'test' }).length).toBeGreaterThan(14);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(searchFinanzaemter('  ')).toEqual([]);
+    });
+  });
+
+  describe('responsible Finanzamt', () => {
+    it('should find the Finanzamt of a Postleitzahl', () => {
+      expect(findFinanzaemterByPlz('66740')?.map((info) => info.name)).toEqual(['Saarlouis']);
+    });
+
+    it('should return every Finanzamt of a Postleitzahl that spans several', () => {
+      expect(findFinanzaemterByPlz('66111')?.map((info) => info.bufa)).toEqual(['1040', '1055']);
+    });
+
+    it('should find the Finanzamt of a Kreis or Gemeinde AGS', () => {
+      expect(findFinanzaemterByAgs('10042')?.map((info) => info.name)).toEqual(['Merzig']);
+      // Gemeinden fall back to their Kreis
+      expect(findFinanzaemterByAgs('10046117')?.map((info) => info.name)).toEqual(['St. Wendel']);
+      expect(findFinanzaemterByAgs('10045')?.map((info) => info.bufa)).toEqual(['1075', '1085']);
+    });
+
+    it('should return nothing for malformed keys and unknown Kreise of covered Länder', () => {
+      expect(findFinanzaemterByAgs('10049')).toEqual([]);
+      expect(findFinanzaemterByAgs('1004')).toEqual([]);
+    });
+
+    it('should report places outside the bundled data as not covered', () => {
+      expect(findFinanzaemterByPlz('80331')).toBeUndefined();
+      expect(findFinanzaemterByPlz('99999')).toBeUndefined();
+      expect(findFinanzaemterByAgs('09162000')).toBeUndefined();
+      expect(findFinanzaemterByAgs('11000000')).toBeUndefined();
+    });
+
+    it('should report the table version', () => {
+      expect(getZustaendigkeitsVersion()).toEqual({
+        version: ZUSTAENDIGKEITEN.version,
+        stand: ZUSTAENDIGKEITEN.stand,
+        laender: ['SL'],
+      });
+    });
+
+    it('should cover every Kreis of the listed Länder', () => {
+      ['10041', '10042', '10043', '10044', '10045', '10046'].forEach((kreis) =>
+        expect(ZUSTAENDIGKEITEN.ags[kreis]).toBeDefined()
+      );
+    });
+
+    it('should know the Land of every AGS Landesschlüssel', () => {
+      expect(Object.values(AGS_LANDESSCHLUESSEL).sort()).toEqual(
+        LAENDER_FORMATE.map((format) => format.kuerzel).sort()
+      );
+    });
+
+    it('should only map well-formed keys to known production Finanzämter', () => {
+      Object.entries(ZUSTAENDIGKEITEN.plz).forEach(([plz, bufas]) => {
+        expect(plz).toMatch(/^\d{5}$/);
+        bufas.forEach((bufa) => expect(BUFA_MAP[bufa]).toBeDefined());
+      });
+      Object.entries(ZUSTAENDIGKEITEN.ags).forEach(([ags, bufas]) => {
+        expect(ags).toMatch(/^\d{5}(\d{3})?$/);
+        bufas.forEach((bufa) => expect(BUFA_MAP[bufa]).toBeDefined());
+      });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for formatSteuernummer
+ */
+import { formatSteuernummer } from '../src/index';
+import { validateSteuernummer } from '../src/tax-number/validation-tax-number';
+
+describe('formatSteuernummer', () => {
+  describe('Länder format', () => {
+    it.each([
+      ['9181081508155', '181/815/08155'],
+      ['1121081508150', '21/815/08150'],
+      ['5133081508159', '133/8150/8159'],
+      ['2801081508159', '01815/08159'],
+      ['2710081508159', '10/815/0815/9'],
+      ['2113081508153', '13 815 08153'],
+      ['3046081508150', '046/815/08150'],
+      ['4151081508156', '151/815/08156'],
+    ])('should render %s as %s', (elster13, laenderFormat) => {
+      expect(formatSteuernummer(elster13)?.laenderFormat).toBe(laenderFormat);
+    });
+  });
+
+  it('should render all three formats', () => {
+    expect(formatSteuernummer('9181081508155')).toEqual({
+      laenderFormat: '181/815/08155',
+      elsterFormat: '9181081508155',
+      displayFormat: '9181 0815 0815 5',
+    });
+  });
+
+  it('should ignore formatting characters in the input', () => {
+    expect(formatSteuernummer('9181 0815 0815 5')?.laenderFormat).toBe('181/815/08155');
+  });
+
+  it('should accept a validateSteuernummer result', () => {
+    const result = validateSteuernummer('181/815/08155');
+
+    expect(formatSteuernummer(result)?.elsterFormat).toBe('9181081508155');
+  });
+
+  describe('invalid input', () => {
+    it('should return null for an invalid validation result', () => {
+      expect(formatSteuernummer(validateSteuernummer('123'))).toBeNull();
+    });
+
+    it('should return null for numbers that are not 13 digits', () => {
+      expect(formatSteuernummer('18181508155')).toBeNull();
+      expect(formatSteuernummer('')).toBeNull();
+    });
+
+    it('should return null for an unknown Land', () => {
+      expect(formatSteuernummer('9981081508155')).toBeNull();
+    });
+
+    it('should return null if the fifth digit is not 0', () => {
+      expect(formatSteuernummer('9181181508155')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Unit tests for the finanzamtsdaten.ts generator
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BUFA_MAP, FinanzamtInfo } from '../src/tax-number/finanzamtsdaten';
+import { FINANZAMT_KONTAKTDATEN } from '../src/tax-number/finanzamtsdaten-kontakt';
+import { LAENDER_FORMATE } from '../src/tax-number/laenderformate';
+import { LANDES_VERFAHREN } from '../src/tax-number/prufziffernverfahren';
+
+const generator = require('../scripts/generate-finanzamtsdaten');
+
+const SOURCE_FILE = path.join(__dirname, '..', 'src', 'tax-number', 'finanzamtsdaten.ts');
+const KONTAKT_FILE = path.join(__dirname, '..', 'src', 'tax-number', 'finanzamtsdaten-kontakt.ts');
+
+const CSV = [
+  'BuFaNr;Name;Ort',
+  '1040;Finanzamt Saarbrücken I;Saarbrücken',
+  '"5214";"Köln-Altstadt";"Köln"',
+  '9181;"München ""Abt. I"""; München',
+].join('\r\n');
+
+const KONTAKT_CSV = [
+  'BuFaNr;Name;Strasse;PLZ;Ort;Postfach;Postfach_PLZ;Postfach_Ort;Telefon;Email;Bank;IBAN;BIC;Bank_2;IBAN_2;BIC_2',
+  '1040;Saarbrücken I;Am Stadtgraben 2-4;66111;Saarbrücken;10 01 52;66001;Saarbrücken;0681 30000;' +
+    'poststelle@fa-sb.de;Bundesbank;DE89 3704 0044 0532 0130 00;MARKDEF1590;;;',
+  '5214;Köln-Altstadt;;;;;;;;;;;;;;',
+].join('\n');
+
+describe('generate-finanzamtsdaten', () => {
+  it('should reproduce the production Finanzämter of finanzamtsdaten.ts', () => {
+    const entries: Record<string, FinanzamtInfo> = {};
+    Object.entries(BUFA_MAP).forEach(([bufa, info]) => {
+      const { name, bundesland, landesnummer, finanzamtsnummer, verfahren } = info;
+      entries[bufa] = { bufa: info.bufa, name, bundesland, landesnummer, finanzamtsnummer, verfahren };
+    });
+    const source = fs.readFileSync(SOURCE_FILE, 'utf8');
+
+    expect(generator.renderBufaMap(entries)).toBe(generator.extractGeneratedBlock(source));
+  });
+
+  it('should reproduce the contact data of finanzamtsdaten-kontakt.ts', () => {
+    const source = fs.readFileSync(KONTAKT_FILE, 'utf8');
+
+    expect(generator.renderKontaktdaten(FINANZAMT_KONTAKTDATEN)).toBe(
+      generator.extractGeneratedBlock(source)
+    );
+  });
+
+  it('should use the Bundesländer of the Länder formats', () => {
+    LAENDER_FORMATE.forEach((format) =>
+      format.landesnummern.forEach((landesnummer) =>
+        expect(generator.BUNDESLAENDER[landesnummer]).toBe(format.bundesland)
+      )
+    );
+    expect(Object.keys(generator.BUNDESLAENDER)).toHaveLength(
+      LAENDER_FORMATE.flatMap((format) => format.landesnummern).length
+    );
+  });
+
+  it('should use the Prüfziffernverfahren of the Länder', () => {
+    expect(generator.VERFAHREN).toEqual(LANDES_VERFAHREN);
+  });
+
+  it('should parse CSV exports', () => {
+    expect(generator.parseCsv(CSV)).toEqual([
+      { bufanr: '1040', name: 'Finanzamt Saarbrücken I', ort: 'Saarbrücken' },
+      { bufanr: '5214', name: 'Köln-Altstadt', ort: 'Köln' },
+      { bufanr: '9181', name: 'München "Abt. I"', ort: 'München' },
+    ]);
+  });
+
+  it('should parse XML exports', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <Finanzaemter>
+        <Finanzamt><BuFaNr>1040</BuFaNr><Name>Saarbrücken I</Name></Finanzamt>
+        <Finanzamt><BuFaNr>5214</BuFaNr><Name>K&amp;ln</Name></Finanzamt>
+      </Finanzaemter>`;
+
+    expect(generator.parseXml(xml)).toEqual([
+      { bufanr: '1040', name: 'Saarbrücken I' },
+      { bufanr: '5214', name: 'K&ln' },
+    ]);
+  });
+
+  it('should read nested addresses and bank accounts from XML exports', () => {
+    const xml = `<Finanzaemter>
+        <Finanzamt>
+          <BuFaNr>1040</BuFaNr><Name>Saarbrücken I</Name>
+          <Hausanschrift><Strasse>Am Stadtgraben 2-4</Strasse><PLZ>66111</PLZ><Ort>Saarbrücken</Ort></Hausanschrift>
+          <Postanschrift><Postfach>10 01 52</Postfach><PLZ>66001</PLZ><Ort>Saarbrücken</Ort></Postanschrift>
+          <Bankverbindung><Bank>Bundesbank</Bank><IBAN>DE89370400440532013000</IBAN></Bankverbindung>
+          <Bankverbindung><Bank>Landesbank</Bank><IBAN>DE02120300000000202051</IBAN></Bankverbindung>
+        </Finanzamt>
+        <Finanzamt><BuFaNr>5214</BuFaNr><Name>Köln-Altstadt</Name></Finanzamt>
+      </Finanzaemter>`;
+
+    expect(generator.parseXml(xml)).toEqual([
+      {
+        bufanr: '1040',
+        name: 'Saarbrücken I',
+        hausanschrift_strasse: 'Am Stadtgraben 2-4',
+        hausanschrift_plz: '66111',
+        hausanschrift_ort: 'Saarbrücken',
+        postanschrift_postfach: '10 01 52',
+        postanschrift_plz: '66001',
+        postanschrift_ort: 'Saarbrücken',
+        bank_1: 'Bundesbank',
+        iban_1: 'DE89370400440532013000',
+        bank_2: 'Landesbank',
+        iban_2: 'DE02120300000000202051',
+      },
+      { bufanr: '5214', name: 'Köln-Altstadt' },
+    ]);
+  });
+
+  it('should build entries with the Bundesland and Verfahren of the Land', () => {
+    const entries = generator.buildEntries(generator.parseCsv(CSV));
+
+    expect(BUFA_MAP['1040']).toMatchObject(entries['1040']);
+    expect(BUFA_MAP['5214']).toMatchObject(entries['5214']);
+    expect(entries['9181']).toMatchObject({ bundesland: 'Bayern', verfahren: 'ELF' });
+  });
+
+  it('should build the contact data of entries', () => {
+    const entries = generator.buildEntries(generator.parseCsv(KONTAKT_CSV));
+
+    expect(entries['1040']).toMatchObject({
+      hausanschrift: { strasse: 'Am Stadtgraben 2-4', plz: '66111', ort: 'Saarbrücken' },
+      postanschrift: { postfach: '10 01 52', plz: '66001', ort: 'Saarbrücken' },
+      kontakt: { telefon: '0681 30000', email: 'poststelle@fa-sb.de' },
+      bankverbindungen: [{ bank: 'Bundesbank', iban: 'DE89370400440532013000', bic: 'MARKDEF1590' }],
+    });
+    expect(entries['5214']).not.toHaveProperty('hausanschrift');
+    expect(entries['5214']).not.toHaveProperty('bankverbindungen');
+  });
+
+  it('should render the contact data of entries that have some', () => {
+    const entries = generator.buildEntries(generator.parseCsv(KONTAKT_CSV));
+
+    expect(generator.renderKontaktdaten(entries)).toBe(
+      [
+        'export const FINANZAMT_KONTAKTDATEN: Record<string, FinanzamtKontaktdaten> = {',
+        "  '1040': {",
+        '    hausanschrift: {',
+        "      strasse: 'Am Stadtgraben 2-4',",
+        "      plz: '66111',",
+        "      ort: 'Saarbrücken',",
+        '    },',
+        '    postanschrift: {',
+        "      postfach: '10 01 52',",
+        "      plz: '66001',",
+        "      ort: 'Saarbrücken',",
+        '    },',
+        '    kontakt: {',
+        "      telefon: '0681 30000',",
+        "      email: 'poststelle@fa-sb.de',",
+        '    },',
+        '    bankverbindungen: [',
+        '      {',
+        "        bank: 'Bundesbank',",
+        "        iban: 'DE89370400440532013000',",
+        "        bic: 'MARKDEF1590',",
+        '      },',
+        '    ],',
+        '  },',
+        '};',
+      ].join('\n')
+    );
+    expect(generator.renderKontaktdaten({})).toBe(
+      'export const FINANZAMT_KONTAKTDATEN: Record<string, FinanzamtKontaktdaten> = {};'
+    );
+  });
+
+  it('should keep former names marked (alt)', () => {
+    const csv = 'BuFaNr;Name\n2314 (alt);Braunschweig-Wilhelmstr.';
+    const entries = generator.buildEntries(generator.parseCsv(csv));
+
+    expect(entries['2314 (alt)']).toMatchObject({
+      finanzamtsnummer: '14 (alt)',
+      bundesland: 'Niedersachsen',
+    });
+  });
+
+  it.each([
+    ['BuFaNr;Name\n123;Kurz', 'invalid BUFA "123"'],
+    ['BuFaNr;Name\n9940;Nirgendwo', 'unknown Landesnummer "99"'],
+    ['BuFaNr;Name\n1040;', 'missing name of BUFA "1040"'],
+    ['BuFaNr;Name\n1040;A\n1040;B', 'Record 2: duplicate BUFA "1040"'],
+  ])('should reject invalid records in %p', (csv, message) => {
+    expect(() => generator.buildEntries(generator.parseCsv(csv))).toThrow(message);
+  });
+
+  it('should escape quotes in names', () => {
+    const block = generator.renderBufaMap({
+      '1040': { ...BUFA_MAP['1040'], name: "St. Mary's" },
+    });
+
+    expect(block).toContain("name: 'St. Mary\\'s',");
+  });
+
+  it('should replace the generated block of the target file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'finanzamtsdaten-'));
+    const exportFile = path.join(dir, 'gemfa.csv');
+    const targetFile = path.join(dir, 'finanzamtsdaten.ts');
+    const kontaktFile = path.join(dir, 'finanzamtsdaten-kontakt.ts');
+    const template = [
+      'before',
+      '// BEGIN GENERATED by scripts/generate-finanzamtsdaten.js',
+      'old',
+      '// END GENERATED',
+      'after',
+    ].join('\n');
+    fs.writeFileSync(exportFile, KONTAKT_CSV);
+    fs.writeFileSync(targetFile, template);
+    fs.writeFileSync(kontaktFile, template);
+
+    try {
+      expect(generator.generate(exportFile, targetFile)).toBe(2);
+
+      const target = fs.readFileSync(targetFile, 'utf8');
+      expect(target.startsWith('before\n// BEGIN GENERATED')).toBe(true);
+      expect(target.endsWith('};\n// END GENERATED\nafter')).toBe(true);
+      expect(target).not.toContain('old');
+      expect(target).toContain("name: 'Saarbrücken I',");
+      expect(target).not.toContain('hausanschrift');
+
+      const kontakt = fs.readFileSync(kontaktFile, 'utf8');
+      expect(kontakt).not.toContain('old');
+      expect(kontakt).toContain("strasse: 'Am Stadtgraben 2-4',");
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('should refuse target files without markers', () => {
+    expect(() => generator.replaceGeneratedBlock('const x = 1;', '')).toThrow(
+      'GENERATED markers not found'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for generateSteuernummer
+ */
+import { generateSteuernummer, listFinanzaemter, validateSteuernummer } from '../src/index';
+import { LAENDER_FORMATE } from '../src/tax-number/laenderformate';
+
+describe('generateSteuernummer', () => {
+  it('should generate valid numbers for every Finanzamt', () => {
+    listFinanzaemter({ mode: 'test' }).forEach((info, seed) => {
+      const generated = generateSteuernummer({ bufa: info.bufa, seed });
+
+      expect(generated).toMatchObject({ bufa: info.bufa, finanzamt: info.name });
+      expect(validateSteuernummer(generated.steuernummer, { mode: 'test' })).toMatchObject({
+        valid: true,
+        bufa: info.bufa,
+      });
+    });
+  });
+
+  it('should pick a Finanzamt of the given Land', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const generated = generateSteuernummer({ bundesland: 'NW', seed });
+
+      expect(generated).toMatchObject({ bundesland: 'Nordrhein-Westfalen', isTest: false });
+      expect(validateSteuernummer(generated.steuernummer).valid).toBe(true);
+    }
+  });
+
+  it('should pick test Finanzämter', () => {
+    expect(generateSteuernummer({ test: true, seed: 1 }).isTest).toBe(true);
+    expect(generateSteuernummer({ bundesland: 'Saarland', test: true })).toMatchObject({
+      bufa: '1098',
+      isTest: true,
+    });
+  });
+
+  it('should render the Länder format for round trips', () => {
+    LAENDER_FORMATE.forEach((format, seed) => {
+      const generated = generateSteuernummer({
+        bundesland: format.kuerzel,
+        laenderFormat: true,
+        seed,
+      });
+
+      expect(
+        validateSteuernummer(generated.laenderFormat!, { bufa: generated.bufa }).normalized
+      ).toBe(generated.steuernummer);
+    });
+    expect(generateSteuernummer({ bufa: '9181' }).laenderFormat).toBeUndefined();
+  });
+
+  it('should be reproducible with a seed', () => {
+    expect(generateSteuernummer({ seed: 7 })).toEqual(generateSteuernummer({ seed: 7 }));
+    expect(generateSteuernummer({ bufa: '9181', seed: 7 }).steuernummer).not.toBe(
+      generateSteuernummer({ bufa: '9181', seed: 8 }).steuernummer
+    );
+  });
+
+  it('should reject unknown BUFAs and Länder', () => {
+    expect(() => generateSteuernummer({ bufa: '0000' })).toThrow('Unknown BUFA "0000"');
+    expect(() => generateSteuernummer({ bundesland: 'Atlantis' })).toThrow(
+      'Unknown Bundesland "Atlantis"'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the Länder format templates and their conversion to ELSTER format
+ */
+import {
+  LAENDER_FORMATE,
+  fillTemplate,
+  getLaenderFormat,
+  getLaenderFormateByLength,
+  laenderToElster,
+  parseTemplate,
+} from '../src/tax-number/laenderformate';
+import { normalizeTo13Digits } from '../src/tax-number/normalization';
+import { validateSteuernummer } from '../src/tax-number/validation-tax-number';
+
+describe('Länder formats', () => {
+  describe('template table', () => {
+    it('should cover all 16 Länder', () => {
+      expect(LAENDER_FORMATE).toHaveLength(16);
+    });
+
+    it('should map every template to 13 ELSTER digits', () => {
+      LAENDER_FORMATE.forEach((format) => {
+        expect(format.elsterFormat).toHaveLength(13);
+        expect(format.elsterFormat.charAt(4)).toBe('0');
+      });
+    });
+
+    it('should find the format by Landesnummer', () => {
+      expect(getLaenderFormat('92')?.bundesland).toBe('Bayern');
+      expect(getLaenderFormat('52')?.bundesland).toBe('Nordrhein-Westfalen');
+      expect(getLaenderFormat('99')).toBeUndefined();
+    });
+
+    it('should group the Länder by digit count', () => {
+      expect(getLaenderFormateByLength(10).map((f) => f.bundesland)).toEqual([
+        'Baden-Württemberg',
+        'Berlin',
+        'Bremen',
+        'Hamburg',
+        'Niedersachsen',
+        'Rheinland-Pfalz',
+        'Schleswig-Holstein',
+      ]);
+      expect(getLaenderFormateByLength(11)).toHaveLength(9);
+    });
+  });
+
+  describe('parseTemplate / fillTemplate', () => {
+    it('should split digits into Finanzamt, Bezirk, Unterscheidung and Prüfziffer', () => {
+      expect(parseTemplate('18181508155', 'FFF/BBB/UUUUP')).toEqual({
+        F: '181',
+        B: '815',
+        U: '0815',
+        P: '5',
+      });
+    });
+
+    it('should require fixed template digits to match', () => {
+      expect(parseTemplate('04681508150', '0FF/BBB/UUUUP')).not.toBeNull();
+      expect(parseTemplate('14681508150', '0FF/BBB/UUUUP')).toBeNull();
+    });
+
+    it('should reject digits of the wrong length', () => {
+      expect(parseTemplate('1818150815', 'FFF/BBB/UUUUP')).toBeNull();
+    });
+
+    it('should render parts with separators', () => {
+      const teile = { F: '10', B: '815', U: '0815', P: '9' };
+
+      expect(fillTemplate('FF/BBB/UUUU/P', teile)).toBe('10/815/0815/9');
+      expect(fillTemplate('27FF0BBBUUUUP', teile)).toBe('2710081508159');
+    });
+  });
+
+  describe('laenderToElster', () => {
+    it.each([
+      ['Baden-Württemberg', '0181508159', '2801081508159'],
+      ['Bayern', '18181508155', '9181081508155'],
+      ['Berlin', '2181508150', '1121081508150'],
+      ['Brandenburg', '04681508150', '3046081508150'],
+      ['Nordrhein-Westfalen', '13381508159', '5133081508159'],
+      ['Rheinland-Pfalz', '1081508159', '2710081508159'],
+      ['Sachsen', '20181508150', '3201081508150'],
+      ['Thüringen', '15181508156', '4151081508156'],
+    ])('should convert a %s number', (bundesland, digits, elster13) => {
+      const format = LAENDER_FORMATE.find((f) => f.bundesland === bundesland)!;
+
+      expect(laenderToElster(digits, format)).toBe(elster13);
+    });
+
+    it('should reject numbers that leave the Land', () => {
+      // Bayern only knows the Landesnummern 91 and 92
+      const bayern = getLaenderFormat('91')!;
+
+      expect(laenderToElster('38181508155', bayern)).toBeNull();
+    });
+  });
+
+  describe('normalizeTo13Digits', () => {
+    it('should build the ELSTER number from the BUFA template', () => {
+      expect(normalizeTo13Digits('18181508155', '9181')).toBe('9181081508155');
+      expect(normalizeTo13Digits('13381508159', '5133')).toBe('5133081508159');
+    });
+
+    it('should insert the 0 into 12-digit numbers, including NRW', () => {
+      expect(normalizeTo13Digits('513381508159', '5133')).toBe('5133081508159');
+      expect(normalizeTo13Digits('918181508155', '9181')).toBe('9181081508155');
+    });
+
+    it('should return null if the number does not belong to the BUFA', () => {
+      expect(normalizeTo13Digits('18181508155', '9182')).toBeNull();
+      expect(normalizeTo13Digits('918181508155', '5133')).toBeNull();
+    });
+  });
+
+  describe('validateSteuernummer with Länder formats', () => {
+    it.each([
+      ['181/815/08155', '9181081508155', 'Bayern'],
+      ['133/8150/8159', '5133081508159', 'Nordrhein-Westfalen'],
+      ['01815/08159', '2801081508159', 'Baden-Württemberg'],
+      ['046/815/08150', '3046081508150', 'Brandenburg'],
+      ['10/815/0815/9', '2710081508159', 'Rheinland-Pfalz'],
+    ])('should validate %s', (input, normalized, bundesland) => {
+      const result = validateSteuernummer(input);
+
+      expect(result.valid).toBe(true);
+      expect(result.normalized).toBe(normalized);
+      expect(result.bundesland).toBe(bundesland);
+    });
+  });
+});
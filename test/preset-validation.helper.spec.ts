@@ -2,10 +2,23 @@
  * Unit tests for preset validation functions
  */
 import {
+  ValidationErrorCode,
+  getBICError,
+  getGermanTaxIdError,
+  getGermanTaxNumberError,
+  getGermanVatIdError,
+  getIBANError,
   runValidationPreset,
+  runValidationPresetDetailed,
   validateBIC,
+  validateBICDetailed,
+  validateGermanTaxIdDetailed,
+  validateGermanTaxNumberDetailed,
+  validateGermanVatIdDetailed,
+  validateIBANDetailed,
   validateGermanTaxId,
   validateGermanTaxNumber,
+  validateGermanVatId,
   validateIBAN,
 } from '../src/index';
 
@@ -13,21 +26,34 @@ describe('Preset Validation Functions', () => {
   describe('validateGermanTaxId', () => {
     describe('valid tax IDs', () => {
       it('should validate correct German tax IDs', () => {
-        expect(validateGermanTaxId('12345678903')).toBe(true);
-        expect(validateGermanTaxId('86095742719')).toBe(true);
-        expect(validateGermanTaxId('01234567896')).toBe(true);
-        expect(validateGermanTaxId('10000000000')).toBe(true);
+        expect(validateGermanTaxId('65929970489')).toBe(true); // 9 three times
+        expect(validateGermanTaxId('86095742719')).toBe(true); // 7 twice
+        expect(validateGermanTaxId('11234567890')).toBe(true); // 1 twice, in a row
       });
 
       it('should validate tax ID with whitespace (removed automatically)', () => {
-        expect(validateGermanTaxId('123 456 789 03')).toBe(true);
-        expect(validateGermanTaxId('  12345678903  ')).toBe(true);
+        expect(validateGermanTaxId('659 299 704 89')).toBe(true);
+        expect(validateGermanTaxId('  65929970489  ')).toBe(true);
       });
     });
 
     describe('invalid tax IDs', () => {
       it('should reject tax ID with incorrect check digit', () => {
-        expect(validateGermanTaxId('12345678901')).toBe(false);
+        expect(validateGermanTaxId('65929970488')).toBe(false);
+      });
+
+      it('should reject tax ID starting with 0', () => {
+        expect(validateGermanTaxId('01234567896')).toBe(false);
+      });
+
+      it('should reject tax ID without exactly one repeated digit', () => {
+        expect(validateGermanTaxId('12345678903')).toBe(false); // no repeated digit
+        expect(validateGermanTaxId('11223456789')).toBe(false); // two repeated digits
+        expect(validateGermanTaxId('10000000000')).toBe(false); // 0 nine times
+      });
+
+      it('should reject tax ID with a digit three times in a row', () => {
+        expect(validateGermanTaxId('11123456786')).toBe(false);
       });
 
       it('should reject tax ID with wrong length', () => {
@@ -48,21 +74,21 @@ describe('Preset Validation Functions', () => {
       it('should reject tax numbers without valid BUFA codes', () => {
         // Strict validation: Numbers with unknown Finanzamt or invalid check digits are rejected
         expect(validateGermanTaxNumber('11/160/87412')).toBe(false); // Invalid check digit
-        expect(validateGermanTaxNumber('12345678901')).toBe(false); // Unknown Finanzamt "12"
+        expect(validateGermanTaxNumber('12345678901')).toBe(false); // Invalid check digit for every Finanzamt "12"
         expect(validateGermanTaxNumber('111601234567')).toBe(false); // Invalid check digit
         // Note: Real valid tax numbers require correct BUFA codes AND valid check digits
       });
 
       it('should reject tax numbers with unknown Finanzamt', () => {
         expect(validateGermanTaxNumber('18/181/50815')).toBe(false); // Unknown Finanzamt "18"
-        expect(validateGermanTaxNumber('12 345 678 90')).toBe(false); // Unknown Finanzamt "12"
-        expect(validateGermanTaxNumber('123-456-789-01')).toBe(false); // Unknown Finanzamt "12"
+        expect(validateGermanTaxNumber('12 345 678 90')).toBe(false); // Separators fit no Land
+        expect(validateGermanTaxNumber('123-456-789-01')).toBe(false); // Separators fit no Land
       });
 
       it('should reject numbers without valid BUFA during conversion', () => {
         // All rejected due to unknown Finanzamt or invalid check digits
-        expect(validateGermanTaxNumber('1234567890')).toBe(false); // Unknown Finanzamt "12"
-        expect(validateGermanTaxNumber('12345678901')).toBe(false); // Unknown Finanzamt "12"
+        expect(validateGermanTaxNumber('1234567891')).toBe(false); // Invalid check digit for every Finanzamt "12"
+        expect(validateGermanTaxNumber('12345678901')).toBe(false); // Invalid check digit for every Finanzamt "12"
         expect(validateGermanTaxNumber('123456789012')).toBe(false); // Unknown BUFA "1234"
       });
 
@@ -105,6 +131,48 @@ describe('Preset Validation Functions', () => {
         expect(validateGermanTaxNumber('123456789012345')).toBe(false); // 15 digits
       });
     });
+
+    describe('with options', () => {
+      it('should only accept numbers of the selected Bundesland', () => {
+        expect(validateGermanTaxNumber('181/815/08155', { bundesland: 'Bayern' })).toBe(true);
+        expect(validateGermanTaxNumber('181/815/08155', { bundesland: 'Sachsen' })).toBe(false);
+      });
+    });
+  });
+
+  describe('validateGermanVatId', () => {
+    describe('valid VAT IDs', () => {
+      it('should validate correct German VAT IDs', () => {
+        expect(validateGermanVatId('DE136695976')).toBe(true);
+        expect(validateGermanVatId('DE811828835')).toBe(true);
+      });
+
+      it('should accept spaces, lower case and a missing prefix', () => {
+        expect(validateGermanVatId('DE 136 695 976')).toBe(true);
+        expect(validateGermanVatId(' de136695976 ')).toBe(true);
+        expect(validateGermanVatId('136695976')).toBe(true);
+      });
+    });
+
+    describe('invalid VAT IDs', () => {
+      it('should reject VAT ID with incorrect check digit', () => {
+        expect(validateGermanVatId('DE136695975')).toBe(false);
+      });
+
+      it('should reject VAT ID with wrong length', () => {
+        expect(validateGermanVatId('DE13669597')).toBe(false);
+        expect(validateGermanVatId('DE1366959760')).toBe(false);
+      });
+
+      it('should reject known invalid bodies', () => {
+        expect(validateGermanVatId('DE012345678')).toBe(false); // leading zero
+        expect(validateGermanVatId('DE111111117')).toBe(false); // single repeated digit
+      });
+
+      it('should reject other country prefixes', () => {
+        expect(validateGermanVatId('AT136695976')).toBe(false);
+      });
+    });
   });
 
   describe('validateIBAN', () => {
@@ -206,20 +274,197 @@ describe('Preset Validation Functions', () => {
     });
   });
 
+  describe('error codes', () => {
+    it('should return null for valid values', () => {
+      expect(getGermanTaxIdError('86095742719')).toBeNull();
+      expect(getGermanTaxNumberError('181/815/08155')).toBeNull();
+      expect(getIBANError('DE89 3704 0044 0532 0130 00')).toBeNull();
+      expect(getBICError('DEUTDEFF500')).toBeNull();
+    });
+
+    it('should report empty and non-string values as EMPTY', () => {
+      expect(getGermanTaxIdError('')).toBe(ValidationErrorCode.EMPTY);
+      expect(getGermanTaxNumberError('  ')).toBe(ValidationErrorCode.EMPTY);
+      expect(getIBANError(null as any)).toBe(ValidationErrorCode.EMPTY);
+      expect(getBICError(undefined as any)).toBe(ValidationErrorCode.EMPTY);
+    });
+
+    it('should report tax ID errors', () => {
+      expect(getGermanTaxIdError('1234567890A')).toBe(ValidationErrorCode.INVALID_CHARACTERS);
+      expect(getGermanTaxIdError('1234567890')).toBe(ValidationErrorCode.INVALID_LENGTH);
+      expect(getGermanTaxIdError('01234567896')).toBe(ValidationErrorCode.LEADING_ZERO);
+      expect(getGermanTaxIdError('12345678903')).toBe(ValidationErrorCode.INVALID_DIGIT_REPETITION);
+      expect(getGermanTaxIdError('11123456786')).toBe(ValidationErrorCode.CONSECUTIVE_DIGITS);
+      expect(getGermanTaxIdError('65929970488')).toBe(ValidationErrorCode.INVALID_CHECKSUM);
+    });
+
+    it('should report tax number errors', () => {
+      expect(getGermanTaxNumberError('123')).toBe(ValidationErrorCode.INVALID_LENGTH);
+      expect(getGermanTaxNumberError('9181081508156')).toBe(ValidationErrorCode.INVALID_CHECKSUM);
+      expect(getGermanTaxNumberError('181/815/08155', { bundesland: 'HH' })).toBe(
+        ValidationErrorCode.WRONG_FINANZAMT
+      );
+    });
+
+    it('should report VAT ID errors', () => {
+      expect(getGermanVatIdError('DE-136695976')).toBe(ValidationErrorCode.INVALID_CHARACTERS);
+      expect(getGermanVatIdError('ATU13669597')).toBe(ValidationErrorCode.INVALID_CHARACTERS);
+      expect(getGermanVatIdError('DE')).toBe(ValidationErrorCode.INVALID_LENGTH);
+      expect(getGermanVatIdError('DE012345678')).toBe(ValidationErrorCode.LEADING_ZERO);
+      expect(getGermanVatIdError('DE111111117')).toBe(ValidationErrorCode.INVALID_FORMAT);
+      expect(getGermanVatIdError('DE136695975')).toBe(ValidationErrorCode.INVALID_CHECKSUM);
+    });
+
+    it('should report IBAN errors', () => {
+      expect(getIBANError('DE89-3704-0044-0532-0130-00')).toBe(
+        ValidationErrorCode.INVALID_CHARACTERS
+      );
+      expect(getIBANError('DE8937040044')).toBe(ValidationErrorCode.INVALID_LENGTH);
+      expect(getIBANError('1234370400440532013000')).toBe(ValidationErrorCode.INVALID_FORMAT);
+      expect(getIBANError('ZZ89370400440532013000')).toBe(ValidationErrorCode.UNKNOWN_COUNTRY);
+      expect(getIBANError('DE89370400440532013001')).toBe(ValidationErrorCode.INVALID_CHECKSUM);
+    });
+
+    it('should report BIC errors', () => {
+      expect(getBICError('DEUT-DEFF')).toBe(ValidationErrorCode.INVALID_CHARACTERS);
+      expect(getBICError('DEUTDEF')).toBe(ValidationErrorCode.INVALID_LENGTH);
+      expect(getBICError('1EUTDEFF')).toBe(ValidationErrorCode.INVALID_FORMAT);
+      expect(getBICError('DEUTZZFF')).toBe(ValidationErrorCode.UNKNOWN_COUNTRY);
+    });
+  });
+
+  describe('detailed results', () => {
+    it('should return the normalized tax ID and its check digit', () => {
+      expect(validateGermanTaxIdDetailed(' 860 957 427 19 ')).toEqual({
+        valid: true,
+        normalized: '86095742719',
+        errors: [],
+        metadata: { checkDigit: 9 },
+      });
+    });
+
+    it('should return the prefixed VAT ID and its check digit', () => {
+      expect(validateGermanVatIdDetailed('136 695 976')).toEqual({
+        valid: true,
+        normalized: 'DE136695976',
+        errors: [],
+        metadata: { countryCode: 'DE', checkDigit: 6 },
+      });
+    });
+
+    it('should return the ELSTER number and Finanzamt of a tax number', () => {
+      expect(validateGermanTaxNumberDetailed('181/815/08155')).toEqual({
+        valid: true,
+        normalized: '9181081508155',
+        errors: [],
+        metadata: {
+          bufa: '9181',
+          bundesland: 'Bayern',
+          finanzamt: 'München (181) Überschusseinkünfte',
+          isTest: false,
+          kind: 'general',
+          ambiguous: false,
+          candidates: [
+            {
+              bufa: '9181',
+              normalized: '9181081508155',
+              name: 'München (181) Überschusseinkünfte',
+              bundesland: 'Bayern',
+              isTest: false,
+              kind: 'general',
+            },
+          ],
+        },
+      });
+    });
+
+    it('should list the candidates of an ambiguous tax number', () => {
+      const result = validateGermanTaxNumberDetailed('13/815/70817');
+
+      expect(result.valid).toBe(true);
+      expect(result.normalized).toBeNull();
+      expect(result.metadata.ambiguous).toBe(true);
+      expect(result.metadata.candidates?.map((c) => c.bufa)).toEqual(['1113', '2313']);
+    });
+
+    it('should return the IBAN parts', () => {
+      expect(validateIBANDetailed('de89 3704 0044 0532 0130 00')).toEqual({
+        valid: true,
+        normalized: 'DE89370400440532013000',
+        errors: [],
+        metadata: { countryCode: 'DE', checkDigits: '89', bban: '370400440532013000' },
+      });
+    });
+
+    it('should return the BIC parts', () => {
+      expect(validateBICDetailed('DEUTDEFF500').metadata).toEqual({
+        bankCode: 'DEUT',
+        countryCode: 'DE',
+        locationCode: 'FF',
+        branchCode: '500',
+      });
+      expect(validateBICDetailed('DEUTDEFF').metadata.branchCode).toBeUndefined();
+    });
+
+    it('should return error codes for invalid values', () => {
+      expect(validateIBANDetailed('DE89370400440532013001')).toEqual({
+        valid: false,
+        normalized: null,
+        errors: ['INVALID_CHECKSUM'],
+        metadata: {},
+      });
+      expect(validateGermanTaxNumberDetailed('9181081508155', { bufa: '9182' })).toMatchObject({
+        valid: false,
+        normalized: null,
+        errors: ['WRONG_FINANZAMT'],
+        metadata: { bufa: '9181', bundesland: 'Bayern' },
+      });
+    });
+
+    it('should dispatch presets like runValidationPreset', () => {
+      expect(runValidationPresetDetailed('iban', 'GB82WEST12345698765432').metadata).toEqual({
+        countryCode: 'GB',
+        checkDigits: '82',
+        bban: 'WEST12345698765432',
+      });
+      expect(runValidationPresetDetailed('taxId', '').errors).toEqual(['EMPTY']);
+    });
+
+    it('should report unknown presets', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(runValidationPresetDetailed('unknown' as any, 'DEUTDEFF').errors).toEqual([
+        'UNKNOWN_PRESET',
+      ]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe('runValidationPreset', () => {
     describe('valid inputs', () => {
       it('should validate taxId preset', () => {
-        expect(runValidationPreset('taxId', '12345678903')).toBe(true);
+        expect(runValidationPreset('taxId', '65929970489')).toBe(true);
         expect(runValidationPreset('taxId', '86095742719')).toBe(true);
       });
 
       it('should reject taxNumber preset with invalid BUFA', () => {
         // Strict validation: All rejected due to invalid BUFA or check digits
         expect(runValidationPreset('taxNumber', '11/160/87412')).toBe(false); // Invalid check digit
-        expect(runValidationPreset('taxNumber', '12345678901')).toBe(false); // Unknown Finanzamt
+        expect(runValidationPreset('taxNumber', '12345678901')).toBe(false); // Invalid check digit
         expect(runValidationPreset('taxNumber', '123456789012')).toBe(false); // Unknown BUFA
       });
 
+      it('should validate taxNumber preset in Länder format without separators', () => {
+        expect(runValidationPreset('taxNumber', '18181508155')).toBe(true);
+        expect(validateGermanTaxNumber('18181508155')).toBe(true);
+      });
+
+      it('should validate vatId preset', () => {
+        expect(runValidationPreset('vatId', 'DE136695976')).toBe(true);
+        expect(runValidationPreset('vatId', 'DE 811 828 835')).toBe(true);
+      });
+
       it('should validate iban preset', () => {
         expect(runValidationPreset('iban', 'DE89370400440532013000')).toBe(true);
         expect(runValidationPreset('iban', 'GB82WEST12345698765432')).toBe(true);
@@ -240,6 +485,10 @@ describe('Preset Validation Functions', () => {
         expect(runValidationPreset('taxNumber', '123')).toBe(false);
       });
 
+      it('should reject invalid vatId', () => {
+        expect(runValidationPreset('vatId', 'DE136695975')).toBe(false);
+      });
+
       it('should reject invalid iban', () => {
         expect(runValidationPreset('iban', 'DE89370400440532013001')).toBe(false);
       });
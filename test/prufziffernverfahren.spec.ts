@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the Prüfziffernverfahren (check digit methods)
+ */
+import { BUFA_MAP, FinanzamtInfo } from '../src/tax-number/finanzamtsdaten';
+import { calculatePruefziffer, validatePruefziffer } from '../src/tax-number/prufziffernverfahren';
+
+function office(landesnummer: string, verfahren?: FinanzamtInfo['verfahren']): FinanzamtInfo {
+  return {
+    bufa: `${landesnummer}01`,
+    name: 'Test',
+    bundesland: 'Test',
+    landesnummer,
+    finanzamtsnummer: '01',
+    verfahren,
+  };
+}
+
+describe('Prüfziffernverfahren', () => {
+  describe('valid numbers per Land', () => {
+    it.each([
+      ['Baden-Württemberg (2er-Verfahren)', '2801081508159'],
+      ['Schleswig-Holstein (2er-Verfahren)', '2113081508153'],
+      ['Rheinland-Pfalz (modifiziertes 11er-Verfahren)', '2710081508159'],
+      ['Nordrhein-Westfalen (11er-Verfahren NRW)', '5133081508159'],
+      ['Bayern (11er-Verfahren)', '9181081508155'],
+      ['Niedersachsen (11er-Verfahren)', '2324081508151'],
+      ['Bremen (11er-Verfahren)', '2475081508152'],
+      ['Brandenburg (11er-Verfahren)', '3046081508150'],
+      ['Mecklenburg-Vorpommern (11er-Verfahren)', '4079081508151'],
+      ['Thüringen (11er-Verfahren)', '4151081508156'],
+      ['Saarland (11er-Verfahren)', '1010081508158'],
+    ])('should accept a valid number from %s', (_land, elster13) => {
+      const info = BUFA_MAP[elster13.substring(0, 4)];
+
+      expect(validatePruefziffer(elster13, info)).toBe(true);
+    });
+
+    it('should reject the same numbers with a wrong check digit', () => {
+      expect(validatePruefziffer('2801081508150', BUFA_MAP['2801'])).toBe(false);
+      expect(validatePruefziffer('2710081508150', BUFA_MAP['2710'])).toBe(false);
+      expect(validatePruefziffer('5133081508150', BUFA_MAP['5133'])).toBe(false);
+      expect(validatePruefziffer('9181081508150', BUFA_MAP['9181'])).toBe(false);
+    });
+  });
+
+  describe('Rheinland-Pfalz', () => {
+    it('should accept the official example 22/815/0815/4', () => {
+      expect(calculatePruefziffer('2722081508150', BUFA_MAP['2722'])).toBe(4);
+      expect(validatePruefziffer('2722081508154', BUFA_MAP['2722'])).toBe(true);
+      expect(validatePruefziffer('2722081508155', BUFA_MAP['2722'])).toBe(false);
+    });
+  });
+
+  describe('Berlin', () => {
+    it('should accept the official example 21/815/08150', () => {
+      // Bezirksnummer 815 is checked with method A
+      expect(validatePruefziffer('1121081508150', BUFA_MAP['1121'])).toBe(true);
+      expect(validatePruefziffer('1121081508156', BUFA_MAP['1121'])).toBe(false);
+    });
+
+    it('should check Bezirksnummern 201-693 with method B', () => {
+      expect(validatePruefziffer('1121021512343', BUFA_MAP['1121'])).toBe(true);
+    });
+
+    it.each([
+      ['200', 'BERLIN_A'],
+      ['201', 'BERLIN_B'],
+      ['693', 'BERLIN_B'],
+      ['694', 'BERLIN_A'],
+    ] as const)('should pick the method at the range boundary %s', (bezirk, verfahren) => {
+      const elster13 = `11210${bezirk}12340`;
+
+      expect(calculatePruefziffer(elster13, BUFA_MAP['1121'])).toBe(
+        calculatePruefziffer(elster13, office('11', verfahren))
+      );
+    });
+
+    it('should check all other Bezirksnummern with method A', () => {
+      expect(validatePruefziffer('1121071508157', BUFA_MAP['1121'])).toBe(true);
+      expect(validatePruefziffer('1121081508150', BUFA_MAP['1121'])).toBe(true);
+    });
+
+    it('should reject a method A number carrying the method B check digit', () => {
+      // Bezirksnummer 715: method B would give 3, method A gives 7
+      expect(calculatePruefziffer('1121071508150', office('11', 'BERLIN_B'))).toBe(3);
+      expect(validatePruefziffer('1121071508153', BUFA_MAP['1121'])).toBe(false);
+    });
+
+    it('should reject a method B number carrying the method A check digit', () => {
+      // Bezirksnummer 300: method B gives 2, method A would give 9
+      expect(validatePruefziffer('1120030000102', office('11', 'ELF'))).toBe(true);
+      expect(validatePruefziffer('1120030000109', office('11', 'ELF'))).toBe(false);
+    });
+  });
+
+  describe('calculatePruefziffer', () => {
+    it('should use the 11er-Verfahren factors of the Land', () => {
+      // Same digits, different Länder: Bremen and Bayern weight the Landesnummer differently
+      expect(calculatePruefziffer('2475081508150', office('24', 'ELF'))).toBe(2);
+      expect(calculatePruefziffer('2475081508150', office('91', 'ELF'))).toBe(4);
+    });
+
+    it('should run BAYERN_11ER independently of the Landesnummer', () => {
+      expect(calculatePruefziffer('9181081508150', office('91', 'BAYERN_11ER'))).toBe(5);
+      expect(calculatePruefziffer('9181081508150', office('23', 'BAYERN_11ER'))).toBe(5);
+    });
+
+    it('should treat NRW as the NRW 11er-Verfahren', () => {
+      expect(calculatePruefziffer('5133081508150', office('51', 'NRW'))).toBe(9);
+      expect(calculatePruefziffer('5133081508150', office('51', 'NRW_11'))).toBe(9);
+    });
+
+    it('should resolve STANDARD and a missing verfahren from the Landesnummer', () => {
+      expect(calculatePruefziffer('2801081508150', office('28', 'STANDARD'))).toBe(9);
+      expect(calculatePruefziffer('2710081508150', office('27'))).toBe(9);
+    });
+
+    it('should return null if no check digit can make the number valid', () => {
+      expect(calculatePruefziffer('3201081508150', office('32', 'ELF'))).toBeNull();
+      expect(validatePruefziffer('3201081508150', office('32', 'ELF'))).toBe(false);
+    });
+
+    it('should throw for an unknown Prüfziffernverfahren', () => {
+      const info = office('11', 'UNKNOWN' as FinanzamtInfo['verfahren']);
+
+      expect(() => calculatePruefziffer('1101081508150', info)).toThrow('Unknown Prüfziffernverfahren');
+    });
+
+    it('should throw for STANDARD in an unknown Land', () => {
+      expect(() => calculatePruefziffer('0001081508150', office('00', 'STANDARD'))).toThrow(
+        'No standard Prüfziffernverfahren'
+      );
+    });
+  });
+});
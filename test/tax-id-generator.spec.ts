@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the German tax ID generator
+ */
+import {
+  calculateTaxIdCheckDigit,
+  completeGermanTaxId,
+  generateGermanTaxId,
+  getGermanTaxIdError,
+} from '../src/index';
+
+describe('German tax ID generation', () => {
+  describe('calculateTaxIdCheckDigit', () => {
+    it('should calculate the check digit of the first 10 digits', () => {
+      expect(calculateTaxIdCheckDigit('6592997048')).toBe(9);
+      expect(calculateTaxIdCheckDigit('8609574271')).toBe(9);
+      expect(calculateTaxIdCheckDigit('1123456789')).toBe(0);
+    });
+  });
+
+  describe('completeGermanTaxId', () => {
+    it('should append the check digit', () => {
+      expect(completeGermanTaxId('6592997048')).toBe('65929970489');
+      expect(completeGermanTaxId('4703689281')).toBe('47036892816');
+    });
+
+    it('should reject bodies that are not 10 digits', () => {
+      expect(() => completeGermanTaxId('659299704')).toThrow(
+        'Tax ID body "659299704" must be exactly 10 digits'
+      );
+      expect(() => completeGermanTaxId('659299704A')).toThrow();
+    });
+  });
+
+  describe('generateGermanTaxId', () => {
+    it('should generate valid tax IDs', () => {
+      for (let seed = 0; seed < 500; seed++) {
+        const taxId = generateGermanTaxId(seed);
+        expect([taxId, getGermanTaxIdError(taxId)]).toEqual([taxId, null]);
+      }
+    });
+
+    it('should generate digits repeated twice and three times', () => {
+      const maxRepetitions = Array.from({ length: 100 }, (_, seed) => {
+        const counts = new Map<string, number>();
+        for (const digit of generateGermanTaxId(seed).slice(0, 10)) {
+          counts.set(digit, (counts.get(digit) ?? 0) + 1);
+        }
+        return Math.max(...counts.values());
+      });
+
+      expect(new Set(maxRepetitions)).toEqual(new Set([2, 3]));
+    });
+
+    it('should be reproducible with a seed', () => {
+      expect(generateGermanTaxId(42)).toBe(generateGermanTaxId(42));
+      expect(generateGermanTaxId(42)).not.toBe(generateGermanTaxId(43));
+    });
+
+    it('should generate valid tax IDs without a seed', () => {
+      expect(getGermanTaxIdError(generateGermanTaxId())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for converting Steuernummern after Finanzamt reorganisations
+ */
+import { BUFA_MAP, FinanzamtInfo } from '../src/tax-number/finanzamtsdaten';
+import {
+  registerFinanzaemter,
+  registerUmschluesselungen,
+  resetFinanzamtData,
+} from '../src/tax-number/finanzamtsdaten-laden';
+import { calculatePruefziffer } from '../src/tax-number/prufziffernverfahren';
+import { convertSteuernummer } from '../src/tax-number/umschluesselung';
+
+function withPruefziffer(elster12: string, info: FinanzamtInfo): string {
+  return elster12 + calculatePruefziffer(elster12 + '0', info);
+}
+
+describe('convertSteuernummer', () => {
+  // A closed Saarland office whose Steuernummern moved to Saarbrücken II
+  const closed: FinanzamtInfo = {
+    bufa: '1090',
+    name: 'Saarbrücken Mainzer Straße',
+    bundesland: 'Saarland',
+    landesnummer: '10',
+    finanzamtsnummer: '90',
+    verfahren: 'ELF',
+    validTo: '2019-12-31',
+    successor: '1055',
+  };
+  const oldNumber = withPruefziffer('109008150816', closed);
+
+  beforeEach(() => {
+    registerFinanzaemter([closed]);
+  });
+
+  afterEach(() => {
+    resetFinanzamtData();
+  });
+
+  it('should return numbers of unchanged Finanzämter as they are', () => {
+    expect(convertSteuernummer('9181 0815 0815 5')).toEqual({
+      valid: true,
+      original: '9181081508155',
+      converted: '9181081508155',
+      bufa: '9181',
+      rekeyed: false,
+    });
+  });
+
+  it('should renumber a closed Finanzamt to its successor', () => {
+    expect(convertSteuernummer(oldNumber)).toEqual({
+      valid: true,
+      original: oldNumber,
+      converted: withPruefziffer('105508150816', BUFA_MAP['1055']),
+      bufa: '1055',
+      rekeyed: true,
+      steps: [{ fromBufa: '1090', toBufa: '1055', validFrom: '2020-01-01' }],
+    });
+  });
+
+  it('should accept 12-digit numbers', () => {
+    const twelveDigits = oldNumber.substring(0, 4) + oldNumber.substring(5);
+
+    expect(convertSteuernummer(twelveDigits).original).toBe(oldNumber);
+  });
+
+  it('should map Bezirksnummern of split Finanzämter', () => {
+    registerUmschluesselungen([
+      { fromBufa: '1090', toBufa: '1040', validFrom: '2020-01-01', bezirke: { '815': '915' } },
+    ]);
+
+    expect(convertSteuernummer(oldNumber).converted).toBe(
+      withPruefziffer('104009150816', BUFA_MAP['1040'])
+    );
+    // Other Bezirke go to the successor
+    expect(convertSteuernummer(withPruefziffer('109007000816', closed)).bufa).toBe('1055');
+  });
+
+  it('should follow chains of renumberings', () => {
+    registerUmschluesselungen([{ fromBufa: '1055', toBufa: '1040', validFrom: '2024-01-01' }]);
+
+    const result = convertSteuernummer(oldNumber);
+
+    expect(result.converted).toBe(withPruefziffer('104008150816', BUFA_MAP['1040']));
+    expect(result.steps?.map((step) => step.toBufa)).toEqual(['1055', '1040']);
+  });
+
+  it('should only apply renumberings in effect on the as-of date', () => {
+    expect(convertSteuernummer(oldNumber, { asOf: '2019-06-30' })).toMatchObject({
+      valid: true,
+      converted: oldNumber,
+      rekeyed: false,
+    });
+  });
+
+  it('should reject numbers with an invalid Prüfziffer', () => {
+    const invalid = oldNumber.substring(0, 12) + ((Number(oldNumber[12]) + 1) % 10);
+
+    expect(convertSteuernummer(invalid)).toEqual({
+      valid: false,
+      original: invalid,
+      rekeyed: false,
+      reason: 'Invalid Prüfziffer',
+      errorCode: 'INVALID_CHECKSUM',
+    });
+  });
+
+  it('should reject renumberings into a Bezirksnummer of another length', () => {
+    registerUmschluesselungen([{ fromBufa: '1090', toBufa: '5133', validFrom: '2020-01-01' }]);
+
+    expect(convertSteuernummer(oldNumber)).toMatchObject({
+      valid: false,
+      reason: 'Cannot convert to BUFA 5133',
+      errorCode: 'INVALID_FORMAT',
+    });
+  });
+
+  it('should refuse malformed renumberings', () => {
+    expect(() =>
+      registerUmschluesselungen([{ fromBufa: '1090', toBufa: '1055', validFrom: '2020-13-01' }])
+    ).toThrow('Invalid Umschlüsselung at index 0');
+    expect(convertSteuernummer(oldNumber).steps).toHaveLength(1);
+  });
+
+  it('should reject Länder formats and invalid dates', () => {
+    expect(convertSteuernummer('181/815/08155').errorCode).toBe('INVALID_LENGTH');
+    expect(convertSteuernummer('').errorCode).toBe('EMPTY');
+    expect(convertSteuernummer('9181O81508155').errorCode).toBe('INVALID_CHARACTERS');
+    expect(convertSteuernummer(oldNumber, { asOf: 'yesterday' }).errorCode).toBe('INVALID_FORMAT');
+  });
+});
@@ -2,6 +2,18 @@
  * Unit tests for validateSteuernummer function
  * Tests German tax number validation with BUFA codes and Prüfziffer verification
  */
+import {
+  BUFA_MAP,
+  FinanzamtInfo,
+  getFinanzamt,
+  setDefaultFinanzamtMode,
+  toIsoDate,
+} from '../src/tax-number/finanzamtsdaten';
+import {
+  registerFinanzaemter,
+  resetFinanzamtData,
+} from '../src/tax-number/finanzamtsdaten-laden';
+import { calculatePruefziffer } from '../src/tax-number/prufziffernverfahren';
 import { validateSteuernummer } from '../src/tax-number/validation-tax-number';
 
 describe('validateSteuernummer', () => {
@@ -90,24 +102,22 @@ describe('validateSteuernummer', () => {
   });
 
   describe('invalid tax numbers - invalid characters', () => {
-    it('should reject tax number with letters after normalization', () => {
-      // Letters are removed during normalization, but still fails validation
+    it('should reject tax number with letters', () => {
+      // Only digits, '/', spaces and '-' are allowed, so letters are not removed
       const result = validateSteuernummer('1116A12345678');
 
-      // After removing 'A', becomes '111612345678' (12 digits)
-      // Strict validation: rejected due to invalid check digit
       expect(result.valid).toBe(false);
-      expect(result.reason).toBeDefined();
+      expect(result.reason).toBe('Invalid length or characters');
+      expect(result.errorCode).toBe('INVALID_CHARACTERS');
     });
 
-    it('should reject tax number with special characters after normalization', () => {
-      // Special characters are removed during normalization, but still fails validation
+    it('should reject tax number with special characters', () => {
+      // '#' is no separator, even though the digits alone would have 12 digits
       const result = validateSteuernummer('1116#12345678');
 
-      // After removing '#', becomes '111612345678' (12 digits)
-      // Strict validation: rejected due to invalid check digit
       expect(result.valid).toBe(false);
-      expect(result.reason).toBeDefined();
+      expect(result.reason).toBe('Invalid length or characters');
+      expect(result.errorCode).toBe('INVALID_CHARACTERS');
     });
 
     it('should reject tax number with only special characters', () => {
@@ -158,7 +168,7 @@ describe('validateSteuernummer', () => {
 
   describe('10-digit, 11-digit, and 12-digit formats', () => {
     it('should reject 10-digit with invalid check digit', () => {
-      const result = validateSteuernummer('1234567890');
+      const result = validateSteuernummer('1234567891');
 
       // Strict validation: rejected due to invalid check digit
       expect(result.valid).toBe(false);
@@ -166,7 +176,7 @@ describe('validateSteuernummer', () => {
     });
 
     it('should reject 10-digit format with formatting and invalid check digit', () => {
-      const result = validateSteuernummer('12/345/67890');
+      const result = validateSteuernummer('12/345/67891');
 
       // Strict validation: rejected due to invalid check digit
       expect(result.valid).toBe(false);
@@ -228,6 +238,399 @@ describe('validateSteuernummer', () => {
     });
   });
 
+  describe('ambiguous Länder formats', () => {
+    it('should list every Finanzamt a 10-digit number is valid for', () => {
+      const result = validateSteuernummer('13/815/70817');
+
+      expect(result.valid).toBe(true);
+      expect(result.ambiguous).toBe(true);
+      expect(result.candidates).toEqual([
+        {
+          bufa: '1113',
+          normalized: '1113081570817',
+          name: 'Charlottenburg',
+          bundesland: 'Berlin',
+          isTest: false,
+          kind: 'general',
+        },
+        {
+          bufa: '2313',
+          normalized: '2313081570817',
+          name: 'Braunschweig-Helmstedt',
+          bundesland: 'Niedersachsen',
+          isTest: false,
+          kind: 'general',
+        },
+      ]);
+    });
+
+    it('should not pick one of several candidates', () => {
+      const result = validateSteuernummer('13/815/70817');
+
+      expect(result.ambiguous).toBe(true);
+      expect(result.candidates?.map((c) => c.bundesland)).toEqual(['Berlin', 'Niedersachsen']);
+      expect(result.bufa).toBeUndefined();
+      expect(result.bundesland).toBeUndefined();
+      expect(result.normalized).toBeUndefined();
+    });
+
+    it('should resolve a number with a single candidate', () => {
+      const result = validateSteuernummer('181/815/08155');
+
+      expect(result.ambiguous).toBe(false);
+      expect(result.bufa).toBe('9181');
+      expect(result.candidates).toEqual([
+        {
+          bufa: '9181',
+          normalized: '9181081508155',
+          name: 'München (181) Überschusseinkünfte',
+          bundesland: 'Bayern',
+          isTest: false,
+          kind: 'general',
+        },
+      ]);
+    });
+
+    it('should try every Land for a number without separators', () => {
+      const result = validateSteuernummer('2181508150');
+
+      expect(result.valid).toBe(true);
+      expect(result.ambiguous).toBe(true);
+      expect(result.candidates?.map((c) => c.bufa)).toEqual(['2821', '1121']);
+      expect(validateSteuernummer('18181508155')).toMatchObject({
+        valid: true,
+        ambiguous: false,
+        bufa: '9181',
+      });
+    });
+
+    it('should prefer the Länder whose separators the number is written with', () => {
+      // Also valid in Baden-Württemberg, whose layout is FFBBB/UUUUP
+      expect(validateSteuernummer('21/815/08150')).toMatchObject({
+        valid: true,
+        ambiguous: false,
+        bufa: '1121',
+      });
+    });
+
+    it('should try every Land if the Länder of the separators reject the number', () => {
+      expect(validateSteuernummer('22/815/08154')).toMatchObject({
+        valid: true,
+        bufa: '2722',
+        bundesland: 'Rheinland-Pfalz',
+      });
+      expect(validateSteuernummer('93/815/08152')).toMatchObject({
+        valid: true,
+        bufa: '2893',
+        bundesland: 'Baden-Württemberg',
+      });
+      expect(validateSteuernummer('22/815/08154', { bundesland: 'RP' }).bufa).toBe('2722');
+      expect(validateSteuernummer('22/815/08155').errorCode).toBe('INVALID_CHECKSUM');
+    });
+
+    it('should reject separators that fit no Land before looking up a BUFA', () => {
+      expect(validateSteuernummer('181/81508155')).toEqual({
+        valid: false,
+        reason: 'Separators do not fit the Länder format of any Bundesland',
+        errorCode: 'INVALID_FORMAT',
+      });
+      expect(validateSteuernummer('21/81508150').errorCode).toBe('INVALID_FORMAT');
+    });
+
+    it('should not report candidates for 13-digit numbers', () => {
+      const result = validateSteuernummer('9181081508155');
+
+      expect(result.valid).toBe(true);
+      expect(result.candidates).toBeUndefined();
+      expect(result.ambiguous).toBeUndefined();
+    });
+  });
+
+  describe('options', () => {
+    it('should resolve an ambiguous number with a Bundesland', () => {
+      const result = validateSteuernummer('13/815/70817', { bundesland: 'Niedersachsen' });
+
+      expect(result.valid).toBe(true);
+      expect(result.ambiguous).toBe(false);
+      expect(result.bufa).toBe('2313');
+      expect(result.normalized).toBe('2313081570817');
+    });
+
+    it('should accept ISO 3166-2 codes for the Bundesland', () => {
+      expect(validateSteuernummer('13/815/70817', { bundesland: 'DE-BE' }).bufa).toBe('1113');
+      expect(validateSteuernummer('13/815/70817', { bundesland: 'be' }).bufa).toBe('1113');
+    });
+
+    it('should resolve an ambiguous number with a Landesnummer or BUFA', () => {
+      expect(validateSteuernummer('13/815/70817', { landesnummer: '11' }).bufa).toBe('1113');
+      expect(validateSteuernummer('13/815/70817', { bufa: '2313' }).bufa).toBe('2313');
+    });
+
+    it('should reject a Länder format number that does not fit the selected Land', () => {
+      const result = validateSteuernummer('181/815/08155', { bundesland: 'Berlin' });
+
+      expect(result.valid).toBe(false);
+      expect(result.reason).toBe('Tax number does not belong to the selected Bundesland or Finanzamt');
+    });
+
+    it('should report a number that fits no Finanzamt of the selected Land as unknown', () => {
+      expect(validateSteuernummer('02/815/08156', { bundesland: 'HH' })).toEqual({
+        valid: false,
+        reason: 'Unknown Finanzamt number - no matching BUFA found',
+        errorCode: 'UNKNOWN_BUFA',
+      });
+      // 9181 is an office of Landesnummer 91, so the number belongs elsewhere
+      expect(validateSteuernummer('181/815/08155', { landesnummer: '92' }).errorCode).toBe(
+        'WRONG_FINANZAMT'
+      );
+    });
+
+    it('should reject a number whose check digit only fits another Land', () => {
+      // Valid in Berlin and Niedersachsen only
+      const result = validateSteuernummer('13/815/70817', { bundesland: 'Hamburg' });
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject 12 and 13-digit numbers of another Finanzamt', () => {
+      expect(validateSteuernummer('9181081508155', { bufa: '9182' })).toEqual({
+        valid: false,
+        reason: 'Tax number does not belong to the selected Bundesland or Finanzamt',
+        errorCode: 'WRONG_FINANZAMT',
+        bufa: '9181',
+        bundesland: 'Bayern',
+      });
+      expect(validateSteuernummer('918181508155', { landesnummer: '92' }).valid).toBe(false);
+      expect(validateSteuernummer('918181508155', { landesnummer: '91' }).valid).toBe(true);
+    });
+
+    it('should reject unknown option values', () => {
+      expect(validateSteuernummer('9181081508155', { bundesland: 'Atlantis' }).reason).toBe(
+        'Unknown Bundesland'
+      );
+      expect(validateSteuernummer('9181081508155', { bufa: '9999' }).reason).toBe(
+        'Unknown BUFA or Finanzamt'
+      );
+    });
+  });
+
+  describe('test Finanzämter', () => {
+    afterEach(() => {
+      setDefaultFinanzamtMode('production');
+    });
+
+    it('should reject test Finanzämter in production mode', () => {
+      expect(validateSteuernummer('1194081508150')).toEqual({
+        valid: false,
+        reason: 'ELSTER test Finanzamt not accepted in production mode',
+        errorCode: 'TEST_FINANZAMT',
+        bufa: '1194',
+        isTest: true,
+      });
+      expect(validateSteuernummer('929981508155').errorCode).toBe('TEST_FINANZAMT');
+      expect(validateSteuernummer('94/815/08150', { bundesland: 'BE' }).valid).toBe(false);
+    });
+
+    it('should report test Finanzämter in Länder format like the 12 and 13-digit forms', () => {
+      expect(validateSteuernummer('94/815/08150')).toEqual({
+        valid: false,
+        reason: 'ELSTER test Finanzamt not accepted in production mode',
+        errorCode: 'TEST_FINANZAMT',
+        bufa: '1194',
+        isTest: true,
+      });
+      expect(validateSteuernummer('299/815/08155').errorCode).toBe('TEST_FINANZAMT');
+    });
+
+    it('should accept test Finanzämter in test mode', () => {
+      const result = validateSteuernummer('1194081508150', { mode: 'test' });
+
+      expect(result.valid).toBe(true);
+      expect(result.isTest).toBe(true);
+      expect(result.warnings).toBeUndefined();
+      expect(validateSteuernummer('94/815/08150', { bundesland: 'BE', mode: 'test' }).bufa).toBe(
+        '1194'
+      );
+    });
+
+    it('should accept test Finanzämter with a warning in optional mode', () => {
+      const result = validateSteuernummer('9299081508155', { mode: 'optional' });
+
+      expect(result.valid).toBe(true);
+      expect(result.isTest).toBe(true);
+      expect(result.warnings).toEqual(['Tax number belongs to an ELSTER test Finanzamt']);
+    });
+
+    it('should flag production Finanzämter as not test in every mode', () => {
+      ['production', 'test', 'optional'].forEach((mode) => {
+        const result = validateSteuernummer('9181081508155', { mode: mode as any });
+
+        expect(result.isTest).toBe(false);
+        expect(result.warnings).toBeUndefined();
+      });
+    });
+
+    it('should use the default mode', () => {
+      setDefaultFinanzamtMode('test');
+
+      expect(validateSteuernummer('1194081508150').valid).toBe(true);
+      expect(validateSteuernummer('1194081508150', { mode: 'production' }).valid).toBe(false);
+    });
+
+    it('should only look up test Finanzämter outside production mode', () => {
+      expect(getFinanzamt('1194', 'production')).toBeUndefined();
+      expect(getFinanzamt('1194', 'test')?.isTest).toBe(true);
+      expect(BUFA_MAP['1194']).toBeUndefined();
+      expect(() => setDefaultFinanzamtMode('staging' as any)).toThrow(
+        'Unknown Finanzamt mode "staging"'
+      );
+    });
+  });
+
+  describe('historical Finanzämter', () => {
+    // A closed Saarland office whose Steuernummern moved to Saarbrücken II
+    const closed: FinanzamtInfo = {
+      bufa: '1090',
+      name: 'Saarbrücken Mainzer Straße',
+      bundesland: 'Saarland',
+      landesnummer: '10',
+      finanzamtsnummer: '90',
+      verfahren: 'ELF',
+      validFrom: '1990-01-01',
+      validTo: '2019-12-31',
+      successor: '1055',
+    };
+    const elster12 = '109008150815';
+    const steuernummer = elster12 + calculatePruefziffer(elster12 + '0', closed);
+
+    beforeEach(() => {
+      registerFinanzaemter([closed]);
+    });
+
+    afterEach(() => {
+      resetFinanzamtData();
+    });
+
+    it('should validate a Steuernummer of a closed office while it existed', () => {
+      expect(validateSteuernummer(steuernummer, { asOf: '2015-06-30' })).toMatchObject({
+        valid: true,
+        bufa: '1090',
+        bundesland: 'Saarland',
+      });
+      expect(validateSteuernummer(steuernummer, { asOf: new Date(2019, 11, 31) }).valid).toBe(
+        true
+      );
+    });
+
+    it('should reject it after the office was closed and name the successor', () => {
+      expect(validateSteuernummer(steuernummer)).toEqual({
+        valid: false,
+        reason: 'Finanzamt did not exist on the as-of date',
+        errorCode: 'CLOSED_FINANZAMT',
+        bufa: '1090',
+        bundesland: 'Saarland',
+        successor: '1055',
+      });
+      expect(validateSteuernummer(steuernummer, { asOf: '2020-01-01' }).valid).toBe(false);
+      expect(validateSteuernummer(steuernummer, { asOf: '1989-12-31' }).valid).toBe(false);
+    });
+
+    it('should find closed offices by date only', () => {
+      expect(getFinanzamt('1090', 'production', '2000-01-01')?.name).toBe(
+        'Saarbrücken Mainzer Straße'
+      );
+      expect(getFinanzamt('1090')).toBeUndefined();
+      expect(getFinanzamt('1055', 'production', '2000-01-01')?.name).toBe('Saarbrücken II');
+    });
+
+    it('should reject invalid as-of dates', () => {
+      expect(validateSteuernummer('9181081508155', { asOf: '2019-02-30' })).toEqual({
+        valid: false,
+        reason: 'Invalid as-of date',
+        errorCode: 'INVALID_FORMAT',
+      });
+      expect(validateSteuernummer('9181081508155', { asOf: new Date('nope') }).valid).toBe(false);
+    });
+
+    it('should convert dates to ISO dates', () => {
+      expect(toIsoDate(new Date(2024, 0, 5))).toBe('2024-01-05');
+      expect(toIsoDate('2024-02-29')).toBe('2024-02-29');
+      expect(toIsoDate('2023-02-29')).toBeNull();
+      expect(toIsoDate('05.01.2024')).toBeNull();
+    });
+  });
+
+  describe('Finanzamt kinds', () => {
+    const koerperschaften = '112708150815' + calculatePruefziffer('1127081508150', BUFA_MAP['1127']);
+    const individual = { expectedKinds: ['general' as const, 'international' as const] };
+
+    it('should report the kind of the Finanzamt', () => {
+      expect(validateSteuernummer(koerperschaften)).toMatchObject({
+        valid: true,
+        kind: 'corporations',
+      });
+      expect(validateSteuernummer('9181081508155').kind).toBe('general');
+    });
+
+    it('should warn about Finanzämter of unexpected kinds', () => {
+      expect(validateSteuernummer(koerperschaften, individual)).toMatchObject({
+        valid: true,
+        warnings: ['Tax number belongs to a Finanzamt for corporations'],
+      });
+      expect(validateSteuernummer('9181081508155', individual).warnings).toBeUndefined();
+    });
+
+    it('should warn if a candidate of an ambiguous number has an unexpected kind', () => {
+      const result = validateSteuernummer('13/815/70817', { expectedKinds: ['corporations'] });
+
+      expect(result.ambiguous).toBe(true);
+      expect(result.warnings).toEqual(['Tax number belongs to a Finanzamt for general taxation']);
+    });
+
+    it('should throw on unknown kinds', () => {
+      expect(() =>
+        validateSteuernummer('9181081508155', { expectedKinds: ['private' as 'general'] })
+      ).toThrow('Unknown Finanzamt kind "private"');
+    });
+  });
+
+  describe('error codes', () => {
+    it.each([
+      ['', 'EMPTY'],
+      ['123', 'INVALID_LENGTH'],
+      ['abc', 'INVALID_CHARACTERS'],
+      ['1116A12345678', 'INVALID_CHARACTERS'],
+      ['181.815.08155', 'INVALID_CHARACTERS'],
+      ['12345678901234', 'INVALID_LENGTH'],
+      ['0000000000', 'ALL_ZEROS'],
+      ['9999081508155', 'UNKNOWN_BUFA'],
+      ['9181081508156', 'INVALID_CHECKSUM'],
+      ['12/345/67891', 'UNKNOWN_BUFA'],
+      ['181/81508155', 'INVALID_FORMAT'],
+      ['21/81508150', 'INVALID_FORMAT'],
+    ])('should report %p as %s', (input, errorCode) => {
+      expect(validateSteuernummer(input).errorCode).toBe(errorCode);
+    });
+
+    it('should report option errors', () => {
+      expect(validateSteuernummer('9181081508155', { bundesland: 'Atlantis' }).errorCode).toBe(
+        'UNKNOWN_BUNDESLAND'
+      );
+      expect(validateSteuernummer('181/815/08155', { landesnummer: '99' })).toEqual({
+        valid: false,
+        reason: 'Unknown Landesnummer',
+        errorCode: 'UNKNOWN_BUNDESLAND',
+      });
+      expect(validateSteuernummer('9181081508155', { bufa: '9182' }).errorCode).toBe(
+        'WRONG_FINANZAMT'
+      );
+    });
+
+    it('should not set an error code on valid numbers', () => {
+      expect(validateSteuernummer('9181081508155').errorCode).toBeUndefined();
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle null input gracefully', () => {
       const result = validateSteuernummer(null as any);
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for EU VAT ID validation
+ */
+import * as validCountryCodes from '../src/country-codes.json';
+import {
+  ValidationErrorCode,
+  VAT_FORMATS,
+  getEuVatIdError,
+  runValidationPresetDetailed,
+  validateEuVatId,
+  validateEuVatIdDetailed,
+} from '../src/index';
+
+describe('validateEuVatId', () => {
+  const validVatIds: Record<string, string[]> = {
+    AT: ['ATU13585627'],
+    BE: ['BE0403019261', 'BE0428759497'],
+    BG: ['BG175074752', 'BG7523169263', 'BG8032056031'],
+    CY: ['CY10259033P'],
+    CZ: ['CZ25123891', 'CZ640903926', 'CZ7103192745'],
+    DE: ['DE136695976'],
+    DK: ['DK13585628'],
+    EE: ['EE100931558', 'EE100594102'],
+    EL: ['EL094259216', 'EL023456780'],
+    ES: ['ESB58378431', 'ESB64717838', 'ES54362315K', 'ESX5253868R', 'ESM1234567L'],
+    FI: ['FI20774740'],
+    FR: ['FR40303265045', 'FR23334175221', 'FRK7399859412', 'FR4Z123456782', 'FR84323140392'],
+    HR: ['HR33392005961'],
+    HU: ['HU12892312'],
+    IE: ['IE6433435OA', 'IE6433435F', 'IE8D79739I'],
+    IT: ['IT00743110157'],
+    LT: ['LT119511515', 'LT100001919017'],
+    LU: ['LU15027442'],
+    LV: ['LV40003521600', 'LV16117519997'],
+    MT: ['MT11679112'],
+    NL: ['NL004495445B01', 'NL002455799B11'],
+    PL: ['PL8567346215'],
+    PT: ['PT501964843'],
+    RO: ['RO18547290'],
+    SE: ['SE123456789701'],
+    SI: ['SI50223054'],
+    SK: ['SK2022749619'],
+    XI: ['XI980780684', 'XI340804329', 'XIGD100', 'XIHA500'],
+  };
+
+  const invalidChecksums = [
+    'ATU13585626',
+    'BE0403019262',
+    'BG175074754',
+    'CY10259033Z',
+    'CZ25123890',
+    'DE136695975',
+    'DK13585627',
+    'EE100594103',
+    'EL094259217',
+    'ESB64717839',
+    'FI20774741',
+    'FR84323140391',
+    'HR33392005962',
+    'HU12892313',
+    'IE6433435E',
+    'IT00743110158',
+    'LT100001919018',
+    'LU15027443',
+    'LV40003521601',
+    'MT11679113',
+    'NL123456789B90',
+    'PL8567346216',
+    'PT501964842',
+    'RO18547291',
+    'SE123456789101',
+    'SI50223053',
+    'SK2022749618',
+    'XI980780685',
+    'XIGD500',
+    'XIHA499',
+  ];
+
+  it('should have a format for every country', () => {
+    expect(VAT_FORMATS.map((format) => format.countryCode).sort()).toEqual(
+      Object.keys(validVatIds).sort()
+    );
+  });
+
+  it('should map every VAT prefix to a known country code', () => {
+    VAT_FORMATS.forEach((format) => {
+      expect(validCountryCodes.countryCodes).toContain(format.isoCountryCode);
+    });
+  });
+
+  Object.entries(validVatIds).forEach(([countryCode, vatIds]) => {
+    it(`should validate correct VAT IDs of ${countryCode}`, () => {
+      vatIds.forEach((vatId) => {
+        expect(getEuVatIdError(vatId)).toBeNull();
+      });
+    });
+  });
+
+  it('should reject VAT IDs with an incorrect check digit', () => {
+    invalidChecksums.forEach((vatId) => {
+      expect(getEuVatIdError(vatId)).toBe(ValidationErrorCode.INVALID_CHECKSUM);
+    });
+  });
+
+  it('should accept whitespace and lowercase letters', () => {
+    expect(validateEuVatId(' fr 40 303 265 045 ')).toBe(true);
+    expect(validateEuVatId('nl 0044.95445B01')).toBe(false);
+  });
+
+  it('should return the detected country', () => {
+    expect(validateEuVatIdDetailed('el 094 259 216')).toEqual({
+      valid: true,
+      normalized: 'EL094259216',
+      errors: [],
+      metadata: { countryCode: 'EL', isoCountryCode: 'GR' },
+    });
+    expect(validateEuVatIdDetailed('XI980780684').metadata).toEqual({
+      countryCode: 'XI',
+      isoCountryCode: 'GB',
+    });
+  });
+
+  it('should return error codes', () => {
+    expect(getEuVatIdError('')).toBe(ValidationErrorCode.EMPTY);
+    expect(getEuVatIdError('ATU-13585627')).toBe(ValidationErrorCode.INVALID_CHARACTERS);
+    expect(getEuVatIdError('136695976')).toBe(ValidationErrorCode.INVALID_FORMAT);
+    expect(getEuVatIdError('GR094259216')).toBe(ValidationErrorCode.UNKNOWN_COUNTRY);
+    expect(getEuVatIdError('GB980780684')).toBe(ValidationErrorCode.UNKNOWN_COUNTRY);
+    expect(getEuVatIdError('CHE123456789')).toBe(ValidationErrorCode.UNKNOWN_COUNTRY);
+    expect(getEuVatIdError('ATU1358562')).toBe(ValidationErrorCode.INVALID_LENGTH);
+    expect(getEuVatIdError('AT135856270')).toBe(ValidationErrorCode.INVALID_FORMAT);
+    expect(getEuVatIdError('NL004495445C01')).toBe(ValidationErrorCode.INVALID_FORMAT);
+    expect(getEuVatIdError('DE011111111')).toBe(ValidationErrorCode.INVALID_FORMAT);
+  });
+
+  it('should be available as the euVatId preset', () => {
+    expect(runValidationPresetDetailed('euVatId', 'ATU 13585627')).toEqual({
+      valid: true,
+      normalized: 'ATU13585627',
+      errors: [],
+      metadata: { countryCode: 'AT', isoCountryCode: 'AT' },
+    });
+    expect(runValidationPresetDetailed('euVatId', 'ATU13585626').errors).toEqual([
+      ValidationErrorCode.INVALID_CHECKSUM,
+    ]);
+  });
+});